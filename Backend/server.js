@@ -2,14 +2,19 @@
 import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
+import crypto from "crypto";
 import pkg from "pg";
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import bwipjs from "bwip-js";
 
 dotenv.config();
 const { Pool } = pkg;
 
 const app = express();
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: "5mb" }));
+app.use(express.text({ type: "text/csv", limit: "5mb" })); // ASN + serial manifest CSV uploads
 
 const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
@@ -31,21 +36,242 @@ function toInt(v, fallback = 0) {
   if (!Number.isFinite(n)) return fallback;
   return Math.floor(n);
 }
+// Box ids / manifest refs in Content-Disposition: quotes, ";" or non-Latin-1 break the header
+function safeFilename(name) {
+  return String(name).replace(/[^A-Za-z0-9._-]+/g, "_");
+}
+
+// -----------------------------
+// Operator auth (PIN / badge login -> bearer session token)
+// -----------------------------
+const ROLE_RANK = { operator: 1, supervisor: 2, admin: 3 };
+const ROLES = Object.keys(ROLE_RANK);
+const AUTH_TOKEN_TTL_MS = Number(process.env.AUTH_TOKEN_TTL_HOURS || 12) * 60 * 60 * 1000; // one shift
+const LOGIN_MAX_FAILURES = 5;
+const LOGIN_MAX_FAILURES_PER_IP = 20; // a guessed badge is a new key each time, so the device is throttled too
+const LOGIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+const loginFailures = new Map(); // key -> { count, since, lockedUntil }
+
+// failures count within one lockout window, so occasional typos on a shared device never add up
+function recordLoginFailure(key, maxFailures) {
+  const now = Date.now();
+  const prev = loginFailures.get(key);
+  const recent = !!prev && now - prev.since < LOGIN_LOCKOUT_MS;
+  const count = (recent ? prev.count : 0) + 1;
+  loginFailures.set(key, {
+    count: count >= maxFailures ? 0 : count,
+    since: recent ? prev.since : now,
+    lockedUntil: count >= maxFailures ? now + LOGIN_LOCKOUT_MS : 0,
+  });
+}
+
+// every unknown username / badge / IP gets an entry: drop them once window and lockout are over
+function pruneLoginFailures() {
+  const now = Date.now();
+  for (const [key, f] of loginFailures) {
+    if (now - f.since >= LOGIN_LOCKOUT_MS && f.lockedUntil <= now) loginFailures.delete(key);
+  }
+}
+
+setInterval(pruneLoginFailures, LOGIN_LOCKOUT_MS).unref();
+
+function hashPin(pin) {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(String(pin), salt, 32).toString("hex");
+  return `${salt}:${hash}`;
+}
+
+function verifyPin(pin, stored) {
+  const [salt, hash] = String(stored || "").split(":");
+  if (!salt || !hash) return false;
+  const candidate = crypto.scryptSync(String(pin), salt, 32);
+  const expected = Buffer.from(hash, "hex");
+  return expected.length === candidate.length && crypto.timingSafeEqual(candidate, expected);
+}
+
+function hashToken(token) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function isValidPin(pin) {
+  return /^\d{4,12}$/.test(toText(pin));
+}
+
+function publicOperator(row) {
+  return {
+    id: Number(row.id),
+    username: row.username,
+    displayName: row.display_name || row.username,
+    role: row.role,
+  };
+}
+
+// EventSource cannot send headers, so these paths may pass the token as ?token=
+const QUERY_TOKEN_PATHS = ["/admin/dashboard/stream"];
+
+// Resolves "Authorization: Bearer <token>" into req.user (everything under /api except login)
+async function authenticate(req, res, next) {
+  if (req.path === "/auth/login") return next();
+
+  const header = toText(req.headers.authorization);
+  const token = header.toLowerCase().startsWith("bearer ")
+    ? header.slice(7).trim()
+    : QUERY_TOKEN_PATHS.includes(req.path)
+      ? toText(req.query.token)
+      : "";
+  if (!token) return res.status(401).json({ error: "Login required." });
+
+  try {
+    const r = await pool.query(
+      `
+      SELECT o.*
+      FROM auth_tokens t
+      JOIN operators o ON o.id = t.operator_id
+      WHERE t.token_hash = $1
+        AND t.revoked_at IS NULL
+        AND t.expires_at > now()
+        AND o.active = true
+      `,
+      [hashToken(token)]
+    );
+    if (!r.rows.length) return res.status(401).json({ error: "Session expired. Please login again." });
+
+    req.user = publicOperator(r.rows[0]);
+    req.tokenHash = hashToken(token);
+    next();
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+}
 
+// Role gate: requireRole("supervisor") admits supervisors and admins
+function requireRole(minRole) {
+  return (req, res, next) => {
+    if (!req.user) return res.status(401).json({ error: "Login required." });
+    if ((ROLE_RANK[req.user.role] || 0) < ROLE_RANK[minRole]) {
+      return res.status(403).json({ error: `Requires ${minRole} role.` });
+    }
+    next();
+  };
+}
+
+// -----------------------------
+// SKU master (DB-managed list of valid SKUs)
 // -----------------------------
-// Admin auth (simple password)
+async function findActiveSku(db, sku) {
+  const r = await db.query(`SELECT * FROM skus WHERE sku = $1 AND active = true`, [toUpperText(sku)]);
+  return r.rows[0] || null;
+}
+
 // -----------------------------
-const ADMIN_PASSWORD = String(process.env.ADMIN_PASSWORD || "").trim();
+// Serial format rules (per SKU)
+// Same checks run on the client before a scan is sent (Frontend utils/serialRules.ts).
+// -----------------------------
+const CHECK_DIGIT_METHODS = ["NONE", "LUHN", "GS1"];
+
+function luhnValid(digits) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// GS1 mod 10: weights 3,1,3,... from the right, excluding the check digit
+function gs1Valid(digits) {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += Number(body[body.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+// Returns an error message, or null when the serial matches the SKU's rules
+function validateSerialRules(skuRow, serial) {
+  if (!skuRow) return null;
+  const sn = toUpperText(serial);
+
+  const len = toInt(skuRow.serial_length, 0);
+  if (len > 0 && sn.length !== len) {
+    return `Serial length must be ${len} for ${skuRow.sku} (got ${sn.length}).`;
+  }
 
-function requireAdmin(req, res, next) {
-  const pw = String(req.headers["x-admin-password"] || "").trim();
-  if (!ADMIN_PASSWORD) {
-    return res.status(500).json({ error: "ADMIN_PASSWORD is not set on server." });
+  const prefixes = toText(skuRow.serial_prefix)
+    .split(",")
+    .map((p) => toUpperText(p))
+    .filter(Boolean);
+  if (prefixes.length && !prefixes.some((p) => sn.startsWith(p))) {
+    return `Serial must start with ${prefixes.join(" or ")} for ${skuRow.sku}.`;
   }
-  if (pw !== ADMIN_PASSWORD) {
-    return res.status(401).json({ error: "Invalid admin password." });
+
+  const pattern = toText(skuRow.serial_regex);
+  if (pattern) {
+    let re;
+    try {
+      re = new RegExp(pattern);
+    } catch {
+      return `Serial rule for ${skuRow.sku} has an invalid regex.`;
+    }
+    if (!re.test(sn)) return `Serial does not match the format for ${skuRow.sku}.`;
+  }
+
+  const method = toUpperText(skuRow.serial_check_digit) || "NONE";
+  if (method !== "NONE") {
+    if (!/^\d{2,}$/.test(sn)) return `Serial must be numeric for ${method} check digit (${skuRow.sku}).`;
+    const ok = method === "LUHN" ? luhnValid(sn) : gs1Valid(sn);
+    if (!ok) return `Serial check digit is invalid (${method}).`;
+  }
+
+  return null;
+}
+
+// Normalizes serial rule fields from an admin request body; returns { values } or { error }
+function readSerialRules(body) {
+  const out = {};
+
+  if (body?.serialLength !== undefined) {
+    const n = body.serialLength === null || body.serialLength === "" ? null : toInt(body.serialLength, -1);
+    if (n !== null && n < 1) return { error: "serialLength must be a positive number." };
+    out.serial_length = n;
+  }
+  if (body?.serialPrefix !== undefined) {
+    out.serial_prefix = toUpperText(body.serialPrefix) || null;
+  }
+  if (body?.serialRegex !== undefined) {
+    const pattern = toText(body.serialRegex);
+    if (pattern) {
+      try {
+        new RegExp(pattern);
+      } catch {
+        return { error: "serialRegex is not a valid regular expression." };
+      }
+    }
+    out.serial_regex = pattern || null;
+  }
+  if (body?.serialCheckDigit !== undefined) {
+    const method = toUpperText(body.serialCheckDigit) || "NONE";
+    if (!CHECK_DIGIT_METHODS.includes(method)) {
+      return { error: `serialCheckDigit must be one of ${CHECK_DIGIT_METHODS.join(", ")}.` };
+    }
+    out.serial_check_digit = method;
   }
-  next();
+
+  return { values: out };
+}
+
+// Changes whenever a SKU is added, edited, (de)activated or deleted
+async function skuMasterVersion(db) {
+  const r = await db.query(
+    `SELECT COUNT(*)::int AS c, COALESCE(MAX(updated_at), 'epoch'::timestamptz) AS u FROM skus`
+  );
+  return `${r.rows[0].c}-${new Date(r.rows[0].u).getTime()}`;
 }
 
 // ----------------------------------------------------
@@ -54,8 +280,40 @@ function requireAdmin(req, res, next) {
 pool
   .query("SELECT current_database()")
   .then((r) => console.log("DB:", r.rows[0].current_database))
+  .then(bootstrapAdmin)
   .catch((e) => console.error("DB connection failed:", e.message));
 
+// First start: create an admin from BOOTSTRAP_ADMIN_USERNAME / BOOTSTRAP_ADMIN_PIN if none exists
+async function bootstrapAdmin() {
+  const username = toText(process.env.BOOTSTRAP_ADMIN_USERNAME);
+  const pin = toText(process.env.BOOTSTRAP_ADMIN_PIN);
+  if (!username || !pin) return;
+
+  if (!isValidPin(pin)) {
+    console.error("BOOTSTRAP_ADMIN_PIN must be 4-12 digits.");
+    return;
+  }
+
+  const existing = await pool.query(`SELECT 1 FROM operators WHERE role = 'admin' AND active = true LIMIT 1`);
+  if (existing.rows.length) return;
+
+  // never take over an existing account (its role and PIN stay as they are)
+  const r = await pool.query(
+    `
+    INSERT INTO operators (username, display_name, role, pin_hash)
+    VALUES ($1, $1, 'admin', $2)
+    ON CONFLICT (username) DO NOTHING
+    RETURNING id
+    `,
+    [username, hashPin(pin)]
+  );
+  if (!r.rows.length) {
+    console.error(`Bootstrap admin not created: username "${username}" is already taken.`);
+    return;
+  }
+  console.log(`Bootstrap admin "${username}" created.`);
+}
+
 // ----------------------------------------------------
 // Health check
 // ----------------------------------------------------
@@ -64,6 +322,387 @@ app.get("/health", async (req, res) => {
   res.json({ api: true, db: r.rows[0].ok === 1 });
 });
 
+// ====================================================
+// ✅ OPERATOR ACCOUNTS + LOGIN
+// Every /api route below requires a bearer token; roles: operator < supervisor < admin.
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS operators (
+//   id BIGSERIAL PRIMARY KEY,
+//   username TEXT NOT NULL UNIQUE,
+//   display_name TEXT NOT NULL DEFAULT '',
+//   role TEXT NOT NULL DEFAULT 'operator', -- operator | supervisor | admin
+//   pin_hash TEXT NOT NULL,                -- scrypt "salt:hash"
+//   badge_code TEXT UNIQUE,                -- badge barcode (optional)
+//   active BOOLEAN NOT NULL DEFAULT true,
+//   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+//   last_login_at TIMESTAMPTZ
+// );
+//
+// CREATE TABLE IF NOT EXISTS auth_tokens (
+//   token_hash TEXT PRIMARY KEY,           -- sha256 of the bearer token
+//   operator_id BIGINT NOT NULL REFERENCES operators(id),
+//   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+//   expires_at TIMESTAMPTZ NOT NULL,
+//   revoked_at TIMESTAMPTZ
+// );
+//
+// First admin: set BOOTSTRAP_ADMIN_USERNAME + BOOTSTRAP_ADMIN_PIN and start the server once.
+// ====================================================
+
+app.use("/api", authenticate);
+
+// ----------------------------------------------------
+// LOGIN
+// POST /api/auth/login
+// body: { username, pin } OR { badge }
+// ----------------------------------------------------
+app.post("/api/auth/login", async (req, res) => {
+  const username = toText(req.body?.username);
+  const pin = toText(req.body?.pin);
+  const badge = toText(req.body?.badge);
+
+  if (!badge && (!username || !pin)) {
+    return res.status(400).json({ error: "username + pin, or badge, is required." });
+  }
+
+  const key = badge ? `badge:${badge}` : `user:${username.toLowerCase()}`;
+  const ipKey = `ip:${req.ip}`;
+  if ([key, ipKey].some((k) => loginFailures.get(k)?.lockedUntil > Date.now())) {
+    return res.status(429).json({ error: "Too many failed attempts. Try again in a few minutes." });
+  }
+
+  try {
+    const r = badge
+      ? await pool.query(`SELECT * FROM operators WHERE badge_code = $1 AND active = true`, [badge])
+      : await pool.query(`SELECT * FROM operators WHERE lower(username) = lower($1) AND active = true`, [username]);
+
+    const op = r.rows[0];
+    const ok = !!op && (badge ? true : verifyPin(pin, op.pin_hash));
+
+    if (!ok) {
+      recordLoginFailure(key, LOGIN_MAX_FAILURES);
+      recordLoginFailure(ipKey, LOGIN_MAX_FAILURES_PER_IP);
+      return res.status(401).json({ error: "Invalid login." });
+    }
+
+    loginFailures.delete(key);
+
+    const token = crypto.randomBytes(32).toString("hex");
+    const t = await pool.query(
+      `
+      INSERT INTO auth_tokens (token_hash, operator_id, expires_at)
+      VALUES ($1, $2, now() + ($3 || ' milliseconds')::interval)
+      RETURNING expires_at AS "expiresAt"
+      `,
+      [hashToken(token), op.id, String(AUTH_TOKEN_TTL_MS)]
+    );
+    await pool.query(`UPDATE operators SET last_login_at = now() WHERE id = $1`, [op.id]);
+
+    return res.json({ token, expiresAt: t.rows[0].expiresAt, operator: publicOperator(op) });
+  } catch (e) {
+    return res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// POST /api/auth/logout  (revokes the current token)
+app.post("/api/auth/logout", async (req, res) => {
+  await pool.query(`UPDATE auth_tokens SET revoked_at = now() WHERE token_hash = $1`, [req.tokenHash]);
+  closeDashboardStreams([req.tokenHash]);
+  res.json({ ok: true });
+});
+
+// GET /api/auth/me
+app.get("/api/auth/me", (req, res) => {
+  res.json({ operator: req.user });
+});
+
+// ----------------------------------------------------
+// ADMIN: operator accounts
+// GET   /api/admin/operators
+// POST  /api/admin/operators      body: { username, displayName?, role, pin, badgeCode? }
+// PATCH /api/admin/operators/:id  body: { displayName?, role?, pin?, badgeCode?, active? }
+// ----------------------------------------------------
+const OPERATOR_COLUMNS = `
+  id,
+  username,
+  display_name AS "displayName",
+  role,
+  badge_code AS "badgeCode",
+  active,
+  created_at AS "createdAt",
+  last_login_at AS "lastLoginAt"
+`;
+
+app.get("/api/admin/operators", requireRole("admin"), async (req, res) => {
+  const r = await pool.query(`SELECT ${OPERATOR_COLUMNS} FROM operators ORDER BY username ASC`);
+  res.json(r.rows);
+});
+
+app.post("/api/admin/operators", requireRole("admin"), async (req, res) => {
+  const username = toText(req.body?.username);
+  const displayName = toText(req.body?.displayName) || username;
+  const role = toText(req.body?.role) || "operator";
+  const pin = toText(req.body?.pin);
+  const badgeCode = toText(req.body?.badgeCode) || null;
+
+  if (!username) return res.status(400).json({ error: "username is required." });
+  if (!ROLES.includes(role)) return res.status(400).json({ error: `role must be one of ${ROLES.join(", ")}.` });
+  if (!isValidPin(pin)) return res.status(400).json({ error: "PIN must be 4-12 digits." });
+
+  try {
+    const r = await pool.query(
+      `
+      INSERT INTO operators (username, display_name, role, pin_hash, badge_code)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING ${OPERATOR_COLUMNS}
+      `,
+      [username, displayName, role, hashPin(pin), badgeCode]
+    );
+    res.status(201).json({ ok: true, operator: r.rows[0] });
+  } catch (e) {
+    if (e.code === "23505") return res.status(409).json({ error: "Username or badge already in use." });
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+app.patch("/api/admin/operators/:id", requireRole("admin"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(400).json({ error: "Invalid operator id" });
+
+  const sets = [];
+  const values = [];
+  let i = 1;
+
+  if (req.body?.displayName !== undefined) {
+    sets.push(`display_name = $${i++}`);
+    values.push(toText(req.body.displayName));
+  }
+  if (req.body?.role !== undefined) {
+    const role = toText(req.body.role);
+    if (!ROLES.includes(role)) return res.status(400).json({ error: `role must be one of ${ROLES.join(", ")}.` });
+    sets.push(`role = $${i++}`);
+    values.push(role);
+  }
+  if (req.body?.pin !== undefined) {
+    if (!isValidPin(req.body.pin)) return res.status(400).json({ error: "PIN must be 4-12 digits." });
+    sets.push(`pin_hash = $${i++}`);
+    values.push(hashPin(toText(req.body.pin)));
+  }
+  if (req.body?.badgeCode !== undefined) {
+    sets.push(`badge_code = $${i++}`);
+    values.push(toText(req.body.badgeCode) || null);
+  }
+  if (req.body?.active !== undefined) {
+    if (!req.body.active && id === req.user.id) {
+      return res.status(400).json({ error: "You cannot deactivate your own account." });
+    }
+    sets.push(`active = $${i++}`);
+    values.push(!!req.body.active);
+  }
+
+  if (!sets.length) return res.status(400).json({ error: "No changes provided" });
+  values.push(id);
+
+  try {
+    const r = await pool.query(
+      `UPDATE operators SET ${sets.join(", ")} WHERE id = $${i} RETURNING ${OPERATOR_COLUMNS}`,
+      values
+    );
+    if (!r.rows.length) return res.status(404).json({ error: "Operator not found" });
+
+    // role / PIN / deactivation changes end existing logins
+    if (req.body?.role !== undefined || req.body?.pin !== undefined || req.body?.active === false) {
+      const revoked = await pool.query(
+        `UPDATE auth_tokens SET revoked_at = now() WHERE operator_id = $1 AND revoked_at IS NULL RETURNING token_hash`,
+        [id]
+      );
+      closeDashboardStreams(revoked.rows.map((t) => t.token_hash));
+    }
+
+    res.json({ ok: true, operator: r.rows[0] });
+  } catch (e) {
+    if (e.code === "23505") return res.status(409).json({ error: "Badge already in use." });
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ====================================================
+// ✅ AUDIT LOG (append-only history of item + session mutations)
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS audit_log (
+//   id BIGSERIAL PRIMARY KEY,
+//   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+//   actor TEXT NOT NULL,                     -- operator username (or 'system')
+//   actor_role TEXT,
+//   action TEXT NOT NULL,                    -- see AUDIT_ACTIONS
+//   session_id BIGINT,                       -- no FK: sessions may be deleted, history stays
+//   outerbox_id TEXT,
+//   innerbox_id TEXT,
+//   item_id BIGINT,
+//   serial_numbers TEXT[] NOT NULL DEFAULT '{}',
+//   before_data JSONB,
+//   after_data JSONB
+// );
+//
+// CREATE INDEX IF NOT EXISTS audit_log_session_idx ON audit_log (session_id, id);
+// CREATE INDEX IF NOT EXISTS audit_log_serials_idx ON audit_log USING GIN (serial_numbers);
+//
+// -- append-only: rows can never be changed or removed
+// CREATE OR REPLACE RULE audit_log_no_update AS ON UPDATE TO audit_log DO INSTEAD NOTHING;
+// CREATE OR REPLACE RULE audit_log_no_delete AS ON DELETE TO audit_log DO INSTEAD NOTHING;
+// ====================================================
+
+const AUDIT_ACTIONS = [
+  "SESSION_CREATE",
+  "SESSION_TAKEOVER",
+  "SESSION_COMPLETE",
+  "SESSION_ABANDON",
+  "SESSION_RESET",
+  "SESSION_STALE",
+  "SESSION_REOPEN",
+  "SESSION_RESTORE",
+  "ITEM_RESTORE",
+  "ITEM_MOVE",
+  "SESSION_SPLIT",
+  "SESSION_MERGE",
+  "SESSION_EDIT",
+  "SESSION_DELETE",
+  "ITEM_ADD",
+  "ITEM_EDIT",
+  "ITEM_DELETE",
+  "BATCH_CONFIRM",
+  "EXCEPTION_ADD",
+  "EXCEPTION_REMOVE",
+  "EXCEPTION_RESOLVE",
+  "OUTERBOX_OPEN",
+  "OUTERBOX_CLOSE",
+  "OUTERBOX_REOPEN",
+];
+
+const SYSTEM_ACTOR = { username: "system", role: "system" };
+
+function sessionSnapshot(row) {
+  if (!row) return null;
+  return {
+    id: Number(row.id),
+    outerBoxId: row.outerbox_id,
+    innerBoxId: row.innerbox_id,
+    expectedQty: row.expected_qty,
+    status: row.status,
+    lockedBy: row.locked_by,
+    lockedSku: row.locked_sku ?? null,
+    mode: row.mode ?? "SINGLE",
+    confirmedAt: row.confirmed_at ?? null,
+  };
+}
+
+function itemSnapshot(row) {
+  return {
+    id: Number(row.id),
+    sku: row.sku,
+    serialNumber: row.serial_number,
+    packedBy: row.packed_by,
+    createdAt: row.created_at,
+  };
+}
+
+// Session reference stored on an item row (outer/inner are denormalized onto items)
+function itemSessionRef(row) {
+  return { id: row.session_id, outerbox_id: row.outerbox_id, innerbox_id: row.innerbox_id };
+}
+
+// Write one audit row; pass the transaction client so the record commits (or rolls back) with the change
+async function writeAudit(db, actor, action, { session = null, itemId = null, serials = [], before = null, after = null }) {
+  await db.query(
+    `
+    INSERT INTO audit_log
+      (actor, actor_role, action, session_id, outerbox_id, innerbox_id, item_id, serial_numbers, before_data, after_data)
+    VALUES
+      ($1, $2, $3, $4, $5, $6, $7, $8::text[], $9::jsonb, $10::jsonb)
+    `,
+    [
+      actor?.username || SYSTEM_ACTOR.username,
+      actor?.role || SYSTEM_ACTOR.role,
+      action,
+      session?.id ? Number(session.id) : null,
+      session?.outerbox_id ?? null,
+      session?.innerbox_id ?? null,
+      itemId,
+      serials,
+      before === null ? null : JSON.stringify(before),
+      after === null ? null : JSON.stringify(after),
+    ]
+  );
+}
+
+// Delete every item of a session and return the deleted rows (for the audit "before" image)
+async function deleteSessionItems(db, sessionId) {
+  const r = await db.query(`DELETE FROM inbound_items WHERE session_id = $1 RETURNING *`, [sessionId]);
+  return r.rows;
+}
+
+// ----------------------------------------------------
+// ADMIN: audit history
+// GET /api/admin/audit?sessionId=&serialNumber=&outerBoxId=&innerBoxId=&actor=&action=&limit=
+// ----------------------------------------------------
+app.get("/api/admin/audit", requireRole("supervisor"), async (req, res) => {
+  const where = [];
+  const values = [];
+  let n = 1;
+
+  const sessionId = toInt(req.query.sessionId, 0);
+  const serialNumber = toUpperText(req.query.serialNumber);
+  const outerBoxId = toText(req.query.outerBoxId);
+  const innerBoxId = toText(req.query.innerBoxId);
+  const actor = toText(req.query.actor);
+  const action = toUpperText(req.query.action);
+
+  if (sessionId) { where.push(`session_id = $${n++}`); values.push(sessionId); }
+  if (serialNumber) { where.push(`$${n++} = ANY(serial_numbers)`); values.push(serialNumber); }
+  if (outerBoxId) { where.push(`outerbox_id = $${n++}`); values.push(outerBoxId); }
+  if (innerBoxId) { where.push(`innerbox_id = $${n++}`); values.push(innerBoxId); }
+  if (actor) { where.push(`actor ILIKE $${n++}`); values.push(`%${actor}%`); }
+  if (action) {
+    if (!AUDIT_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of ${AUDIT_ACTIONS.join(", ")}.` });
+    }
+    where.push(`action = $${n++}`);
+    values.push(action);
+  }
+
+  values.push(Math.min(toInt(req.query.limit, 200) || 200, 1000));
+
+  try {
+    const r = await pool.query(
+      `
+      SELECT
+        id,
+        created_at AS "createdAt",
+        actor,
+        actor_role AS "actorRole",
+        action,
+        session_id AS "sessionId",
+        outerbox_id AS "outerBoxId",
+        innerbox_id AS "innerBoxId",
+        item_id AS "itemId",
+        serial_numbers AS "serialNumbers",
+        before_data AS "before",
+        after_data AS "after"
+      FROM audit_log
+      ${where.length ? "WHERE " + where.join(" AND ") : ""}
+      ORDER BY id DESC
+      LIMIT $${n}
+      `,
+      values
+    );
+    res.json({ actions: AUDIT_ACTIONS, entries: r.rows });
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
 // ====================================================
 // ✅ REALTIME INNERBOX LOCKING + RESUME FLOW
 // Requires these tables/constraints (IMPORTANT):
@@ -94,29 +733,103 @@ app.get("/health", async (req, res) => {
 //   ON inbound_items (session_id);
 // ====================================================
 
+// ====================================================
+// ✅ MIXED (multi-SKU) INNER BOXES
+// mode = 'SINGLE': one SKU (locked_sku) x expected_qty  (default)
+// mode = 'MIXED' : declared SKU/qty lines; expected_qty is their sum, locked_sku stays NULL
+// Requires:
+//
+// ALTER TABLE inbound_sessions ADD COLUMN IF NOT EXISTS mode TEXT NOT NULL DEFAULT 'SINGLE'; -- SINGLE | MIXED
+//
+// CREATE TABLE IF NOT EXISTS inbound_session_lines (
+//   id BIGSERIAL PRIMARY KEY,
+//   session_id BIGINT NOT NULL REFERENCES inbound_sessions(id) ON DELETE CASCADE,
+//   sku TEXT NOT NULL,
+//   expected_qty INT NOT NULL CHECK (expected_qty > 0),
+//   UNIQUE (session_id, sku)
+// );
+// ====================================================
+
+// Normalizes body.lines -> { lines: [{ sku, expectedQty }] } | { lines: null } | { error }
+function readBoxLines(raw) {
+  if (raw === undefined || raw === null) return { lines: null };
+  if (!Array.isArray(raw) || !raw.length) return { error: "lines must be a non-empty array." };
+
+  const lines = [];
+  for (const l of raw) {
+    const sku = toUpperText(l?.sku);
+    const qty = toInt(l?.expectedQty, 0);
+    if (!sku) return { error: "Each line needs a sku." };
+    if (qty < 1) return { error: `expectedQty for ${sku} must be >= 1.` };
+    if (lines.some((x) => x.sku === sku)) return { error: `SKU ${sku} is listed twice.` };
+    lines.push({ sku, expectedQty: qty });
+  }
+  return { lines };
+}
+
+// Declared lines with live scan counts (empty for SINGLE sessions)
+async function loadSessionLines(db, sessionId) {
+  const r = await db.query(
+    `
+    SELECT
+      l.sku,
+      l.expected_qty AS "expectedQty",
+      (SELECT COUNT(*)::int FROM inbound_items i WHERE i.session_id = l.session_id AND i.sku = l.sku) AS "scannedQty",
+      (SELECT COUNT(*)::int FROM inbound_exceptions e WHERE e.session_id = l.session_id AND e.sku = l.sku) AS "exceptionQty"
+    FROM inbound_session_lines l
+    WHERE l.session_id = $1
+    ORDER BY l.id ASC
+    `,
+    [sessionId]
+  );
+  return r.rows;
+}
+
+async function replaceSessionLines(db, sessionId, lines) {
+  await db.query(`DELETE FROM inbound_session_lines WHERE session_id = $1`, [sessionId]);
+  for (const l of lines) {
+    await db.query(
+      `INSERT INTO inbound_session_lines (session_id, sku, expected_qty) VALUES ($1, $2, $3)`,
+      [sessionId, l.sku, l.expectedQty]
+    );
+  }
+}
+
+// Returns an error message when this SKU cannot take another scan in a MIXED box
+function mixedLineError(lines, sku) {
+  const line = lines.find((l) => l.sku === sku);
+  if (!line) return `SKU ${sku} is not declared for this InnerBox.`;
+  if (line.scannedQty + line.exceptionQty >= line.expectedQty) {
+    return `SKU ${sku} is already complete (${line.scannedQty + line.exceptionQty}/${line.expectedQty}).`;
+  }
+  return null;
+}
+
 // ----------------------------------------------------
 // 1) CLAIM / RESUME a session (prevents 2 users scanning same innerbox)
 // POST /api/inbounds/sessions/claim
-// body: { outerBoxId, innerBoxId, expectedQty, packedBy }
+// body: { outerBoxId, innerBoxId, expectedQty }  (operator comes from the login token)
+//    or { outerBoxId, innerBoxId, lines: [{ sku, expectedQty }] }  for a MIXED box
+// Boxes listed on an ASN take expectedQty + locked SKU from the ASN line instead.
 // ----------------------------------------------------
 
 // ----------------------------------------------------
-// DELETE pending batch items by serial list (DB delete)
+// DELETE pending batch items by batch number or serial list (DB delete)
 // POST /api/inbounds/items/delete-batch
-// body: { sessionId, packedBy, serialNumbers: string[] }
+// body: { sessionId, batchNo }  or  { sessionId, serialNumbers: string[] }
 // ----------------------------------------------------
-app.post("/api/inbounds/items/delete-batch", async (req, res) => {
+app.post("/api/inbounds/items/delete-batch", requireRole("operator"), async (req, res) => {
   const sessionId = Number(req.body?.sessionId);
-  const packedBy = String(req.body?.packedBy || "").trim();
+  const packedBy = req.user.username;
+  const batchNo = toInt(req.body?.batchNo, 0);
   const serialNumbers = Array.isArray(req.body?.serialNumbers) ? req.body.serialNumbers : [];
 
   if (!sessionId) return res.status(400).json({ error: "sessionId is required." });
-  if (!packedBy) return res.status(400).json({ error: "packedBy is required." });
-  if (!serialNumbers.length) return res.status(400).json({ error: "serialNumbers is required." });
+  if (!batchNo && !serialNumbers.length) return res.status(400).json({ error: "batchNo or serialNumbers is required." });
 
   // normalize serials
   const serials = serialNumbers.map((s) => String(s || "").trim().toUpperCase()).filter(Boolean);
-  if (!serials.length) return res.status(400).json({ error: "No valid serialNumbers provided." });
+  if (!batchNo && !serials.length) return res.status(400).json({ error: "No valid serialNumbers provided." });
 
   const client = await pool.connect();
   try {
@@ -143,17 +856,48 @@ app.post("/api/inbounds/items/delete-batch", async (req, res) => {
       return res.status(403).json({ error: "Not allowed. Locked by another user." });
     }
 
-    // delete only items for this session + provided serials
-    const del = await client.query(
-      `
-      DELETE FROM inbound_items
-      WHERE session_id = $1
-        AND serial_number = ANY($2::text[])
-      `,
-      [sessionId, serials]
-    );
+    // a confirmed batch is final; only the open one can be thrown away
+    if (batchNo) {
+      const b = await findBatch(client, sessionId, batchNo);
+      if (b?.status === "CONFIRMED") {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: `Batch ${batchNo} is already confirmed.` });
+      }
+    }
+
+    // delete only items for this session + provided batch / serials
+    const del = batchNo
+      ? await client.query(
+          `
+          DELETE FROM inbound_items i
+          USING inbound_batches b
+          WHERE i.batch_id = b.id
+            AND b.session_id = $1
+            AND b.batch_no = $2
+          RETURNING i.*
+          `,
+          [sessionId, batchNo]
+        )
+      : await client.query(
+          `
+          DELETE FROM inbound_items
+          WHERE session_id = $1
+            AND serial_number = ANY($2::text[])
+          RETURNING *
+          `,
+          [sessionId, serials]
+        );
+
+    if (del.rowCount) {
+      await writeAudit(client, req.user, "ITEM_DELETE", {
+        session,
+        serials: del.rows.map((r) => r.serial_number),
+        before: { items: del.rows.map(itemSnapshot) },
+      });
+    }
 
     await client.query("COMMIT");
+    notifyDashboard();
     return res.json({ ok: true, deletedItems: del.rowCount });
   } catch (e) {
     await client.query("ROLLBACK");
@@ -163,23 +907,51 @@ app.post("/api/inbounds/items/delete-batch", async (req, res) => {
   }
 });
 
-app.post("/api/inbounds/sessions/claim", async (req, res) => {
+app.post("/api/inbounds/sessions/claim", requireRole("operator"), async (req, res) => {
   const outer = toText(req.body?.outerBoxId);
   const inner = toText(req.body?.innerBoxId);
-  const packedBy = toText(req.body?.packedBy);
-  const expectedQty = Math.max(0, toInt(req.body?.expectedQty, 0));
+  const packedBy = req.user.username;
+  let expectedQty = Math.max(0, toInt(req.body?.expectedQty, 0));
 
   if (!outer || !inner) {
     return res.status(400).json({ error: "outerBoxId and innerBoxId are required." });
   }
-  if (!packedBy) {
-    return res.status(400).json({ error: "packedBy (operator username) is required." });
-  }
+
+  const parsedLines = readBoxLines(req.body?.lines);
+  if (parsedLines.error) return res.status(400).json({ error: parsedLines.error });
+  const boxLines = parsedLines.lines;
+  if (boxLines) expectedQty = boxLines.reduce((n, l) => n + l.expectedQty, 0);
 
   const client = await pool.connect();
   try {
     await client.query("BEGIN");
 
+    // ✅ OuterBox is opened on first claim; a CLOSED one takes no new InnerBoxes
+    // (reopened InnerBoxes already in it can still be resumed)
+    const outerBox = await openOuterbox(client, outer, req.user);
+
+    // ✅ ASN line (if any) decides qty + SKU
+    const asnLine = await findAsnLine(client, outer, inner);
+    if (asnLine && boxLines) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({
+        error: `InnerBox ${inner} is on ASN ${asnLine.asn_number} as a single-SKU box (${asnLine.sku}).`,
+      });
+    }
+    if (asnLine) expectedQty = asnLine.expected_qty;
+
+    for (const l of boxLines ?? []) {
+      if (!(await findActiveSku(client, l.sku))) {
+        await client.query("ROLLBACK");
+        return res.status(400).json({ error: `Invalid SKU: "${l.sku}" is not in the SKU master.` });
+      }
+    }
+
+    const outerAsns = asnLine ? [] : await asnNumbersForOuterbox(client, outer);
+    const asnWarning = outerAsns.length
+      ? `InnerBox ${inner} is not on ASN ${outerAsns.join(", ")}. It will be reported as unexpected.`
+      : null;
+
     // Lock the session row if it exists
     const existing = await client.query(
       `
@@ -193,35 +965,58 @@ app.post("/api/inbounds/sessions/claim", async (req, res) => {
 
     // Create new session if not exists
     if (existing.rows.length === 0) {
+      if (outerBox.status !== "OPEN") {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: `OuterBox ${outer} is CLOSED.` });
+      }
+
       const created = await client.query(
         `
         INSERT INTO inbound_sessions
-          (outerbox_id, innerbox_id, expected_qty, status, locked_by, locked_at, last_seen)
+          (outerbox_id, innerbox_id, expected_qty, status, locked_by, locked_at, last_seen, locked_sku, mode)
         VALUES
-          ($1, $2, $3, 'IN_PROGRESS', $4, now(), now())
+          ($1, $2, $3, 'IN_PROGRESS', $4, now(), now(), $5, $6)
         RETURNING
           id,
           outerbox_id AS "outerBoxId",
           innerbox_id AS "innerBoxId",
           expected_qty AS "expectedQty",
           status,
+          mode,
           locked_by AS "lockedBy",
           locked_sku AS "lockedSku",
           locked_at AS "lockedAt",
           last_seen AS "lastSeen"
         `,
-        [outer, inner, expectedQty, packedBy]
+        [outer, inner, expectedQty, packedBy, asnLine?.sku ?? null, boxLines ? "MIXED" : "SINGLE"]
       );
 
+      if (boxLines) await replaceSessionLines(client, created.rows[0].id, boxLines);
+      const lines = boxLines ? boxLines.map((l) => ({ ...l, scannedQty: 0, exceptionQty: 0 })) : [];
+
+      await writeAudit(client, req.user, "SESSION_CREATE", {
+        session: { id: created.rows[0].id, outerbox_id: outer, innerbox_id: inner },
+        after: { ...created.rows[0], lines: boxLines ?? undefined },
+      });
+
       await client.query("COMMIT");
-      return res.json({ session: created.rows[0], items: [] });
+      notifyDashboard();
+      return res.json({
+        session: created.rows[0],
+        items: [],
+        exceptions: [],
+        lines,
+        batchNo: 1,
+        asn: asnLineInfo(asnLine),
+        asnWarning,
+      });
     }
 
     const s = existing.rows[0];
 
     if (s.status === "CONFIRMED") {
       await client.query("ROLLBACK");
-      return res.status(409).json({ error: "This InnerBox is already CONFIRMED." });
+      return res.status(409).json({ error: "This InnerBox is already CONFIRMED. A supervisor can reopen it." });
     }
 
     // Lease expiry logic (so locks don't live forever if browser closes)
@@ -237,15 +1032,46 @@ app.post("/api/inbounds/sessions/claim", async (req, res) => {
       });
     }
 
-    // Resume (same operator) OR takeover (lease expired)
-    const updated = await client.query(
-      `
-      UPDATE inbound_sessions
+    // Mode / lines can change on resume only while they still cover what was already scanned
+    let mode = s.mode || "SINGLE";
+    const scanned = await client.query(
+      `SELECT sku, COUNT(*)::int AS c FROM inbound_items WHERE session_id = $1 GROUP BY sku`,
+      [s.id]
+    );
+    if (boxLines) {
+      const uncovered = scanned.rows.filter((r) => {
+        const line = boxLines.find((l) => l.sku === toUpperText(r.sku));
+        return !line || line.expectedQty < r.c;
+      });
+      if (uncovered.length) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: `Lines do not cover scans already saved: ${uncovered.map((r) => `${r.sku} x${r.c}`).join(", ")}.`,
+        });
+      }
+      await replaceSessionLines(client, s.id, boxLines);
+      mode = "MIXED";
+    } else if (mode === "MIXED" && !scanned.rows.length) {
+      // nothing scanned yet (e.g. after a reset): the new single-SKU declaration wins
+      await client.query(`DELETE FROM inbound_session_lines WHERE session_id = $1`, [s.id]);
+      mode = "SINGLE";
+    } else if (mode === "MIXED") {
+      expectedQty = 0; // keep the declared total
+    }
+
+    // Resume (same operator) OR takeover (lease expired)
+    const updated = await client.query(
+      `
+      UPDATE inbound_sessions
       SET
         locked_by = $2,
         expected_qty = CASE WHEN $3 > 0 THEN $3 ELSE expected_qty END,
+        locked_sku = CASE WHEN $5 = 'MIXED' THEN NULL ELSE COALESCE(locked_sku, $4) END,
+        mode = $5,
         status = 'IN_PROGRESS',
-        last_seen = now()
+        last_seen = now(),
+        stale_at = NULL,
+        stale_reason = NULL
       WHERE id = $1
       RETURNING
         id,
@@ -253,28 +1079,53 @@ app.post("/api/inbounds/sessions/claim", async (req, res) => {
         innerbox_id AS "innerBoxId",
         expected_qty AS "expectedQty",
         status,
+        mode,
         locked_by AS "lockedBy",
         locked_at AS "lockedAt",
         locked_sku AS "lockedSku", 
         last_seen AS "lastSeen"
       `,
-      [s.id, packedBy, expectedQty]
+      [s.id, packedBy, expectedQty, asnLine?.sku ?? null, mode]
     );
 
+    const resumed = updated.rows[0];
+    if (s.locked_by !== packedBy) {
+      await writeAudit(client, req.user, "SESSION_TAKEOVER", { session: s, before: sessionSnapshot(s), after: resumed });
+    } else if (s.status !== resumed.status || Number(s.expected_qty) !== Number(resumed.expectedQty)) {
+      await writeAudit(client, req.user, "SESSION_EDIT", { session: s, before: sessionSnapshot(s), after: resumed });
+    }
+
+    // Confirmed items first, then the open batch exactly as it was left (items from before batches count as confirmed)
     const items = await client.query(
       `
       SELECT
-        sku,
-        serial_number AS "serial"
-      FROM inbound_items
-      WHERE session_id = $1
-      ORDER BY id ASC
+        i.sku,
+        i.serial_number AS "serial",
+        b.batch_no AS "batchNo",
+        COALESCE(b.status = 'CONFIRMED', true) AS confirmed
+      FROM inbound_items i
+      LEFT JOIN inbound_batches b ON b.id = i.batch_id
+      WHERE i.session_id = $1
+      ORDER BY COALESCE(b.status = 'CONFIRMED', true) DESC, i.id ASC
       `,
       [s.id]
     );
 
+    const lines = mode === "MIXED" ? await loadSessionLines(client, s.id) : [];
+    const batchNo = await currentBatchNo(client, s.id);
+    const exceptions = await loadSessionExceptions(client, s.id);
+
     await client.query("COMMIT");
-    return res.json({ session: updated.rows[0], items: items.rows });
+    notifyDashboard();
+    return res.json({
+      session: updated.rows[0],
+      items: items.rows,
+      exceptions,
+      lines,
+      batchNo,
+      asn: asnLineInfo(asnLine),
+      asnWarning,
+    });
   } catch (e) {
     await client.query("ROLLBACK");
     return res.status(500).json({ error: "Server error", details: e.message });
@@ -286,14 +1137,12 @@ app.post("/api/inbounds/sessions/claim", async (req, res) => {
 // ----------------------------------------------------
 // 2) HEARTBEAT (keeps lock alive while scanning)
 // POST /api/inbounds/sessions/:id/heartbeat
-// body: { packedBy }
 // ----------------------------------------------------
-app.post("/api/inbounds/sessions/:id/heartbeat", async (req, res) => {
+app.post("/api/inbounds/sessions/:id/heartbeat", requireRole("operator"), async (req, res) => {
   const id = toInt(req.params.id, 0);
-  const packedBy = toText(req.body?.packedBy);
+  const packedBy = req.user.username;
 
   if (!id) return res.status(400).json({ error: "Invalid session id." });
-  if (!packedBy) return res.status(400).json({ error: "packedBy required." });
 
   const r = await pool.query(
     `
@@ -306,58 +1155,150 @@ app.post("/api/inbounds/sessions/:id/heartbeat", async (req, res) => {
   );
 
   if (!r.rows.length) return res.status(403).json({ error: "Not allowed (locked by another user or not in progress)." });
-  return res.json({ ok: true });
+  notifyDashboard();
+  return res.json({ ok: true, leaseMs: LEASE_MS }); // clients schedule their next heartbeat from leaseMs
 });
 
 // ----------------------------------------------------
 // 3) SAVE EACH SCAN (SKU+Serial) immediately
 // POST /api/inbounds/items
-// body: { sessionId, sku, serialNumber, packedBy }
+// body: { sessionId, sku, serialNumber, scanId?, batchNo?, entryMethod?, skuEntryMethod? }
+// scanId (client generated) makes retries safe: a repeated scanId returns the
+// original result instead of a "Serial number already exists" 409.
+// batchNo is advisory: the server always files the item into its open batch and
+// answers 409 when that batch is full and still waiting for confirmation.
 // ----------------------------------------------------
-app.post("/api/inbounds/items", async (req, res) => {
+app.post("/api/inbounds/items", requireRole("operator"), async (req, res) => {
+  const sessionId = toInt(req.body?.sessionId, 0);
+  const sku = toUpperText(req.body?.sku);
+  const serialNumber = toUpperText(req.body?.serialNumber);
+  const scanId = readScanId(req.body?.scanId);
+  const entryMethod = readEntryMethod(req.body?.entryMethod);
+  const skuEntryMethod = readEntryMethod(req.body?.skuEntryMethod);
+  const packedBy = req.user.username;
+
+  if (!sessionId || !sku || !serialNumber) {
+    return res.status(400).json({ error: "sessionId, sku, serialNumber are required." });
+  }
+
+  // ✅ typed (not scanned) entries are refused when the field's policy says so
+  const entryError = entryPolicyError({ sku: skuEntryMethod, serial: entryMethod });
+  if (entryError) return res.status(400).json({ error: entryError });
+
+  const client = await pool.connect();
   try {
-    const sessionId = toInt(req.body?.sessionId, 0);
-    const sku = toUpperText(req.body?.sku);
-    const serialNumber = toUpperText(req.body?.serialNumber);
-    const packedBy = toText(req.body?.packedBy);
+    await client.query("BEGIN");
 
-    if (!sessionId || !sku || !serialNumber || !packedBy) {
-      return res.status(400).json({ error: "sessionId, sku, serialNumber, packedBy are required." });
+    // ✅ reserve the scanId first: a concurrent duplicate waits here until this one commits
+    if (scanId) {
+      const prior = await reserveScanId(client, scanId, sessionId, packedBy);
+      if (prior) {
+        await client.query("ROLLBACK");
+        return replayScan(res, prior, sessionId, packedBy);
+      }
     }
 
     // Ensure session exists + in progress + locked by same operator
-    const s = await pool.query(`SELECT * FROM inbound_sessions WHERE id = $1`, [sessionId]);
-    if (!s.rows.length) return res.status(404).json({ error: "Session not found." });
+    // (row lock: concurrent scans for the last slot of a line/box are checked one after the other)
+    const s = await client.query(`SELECT * FROM inbound_sessions WHERE id = $1 FOR UPDATE`, [sessionId]);
+    if (!s.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found." });
+    }
 
     const session = s.rows[0];
-    
-    if (session.status !== "IN_PROGRESS") return res.status(409).json({ error: "Session is not IN_PROGRESS." });
-    if (toText(session.locked_by) !== packedBy) return res.status(403).json({ error: "InnerBox is locked by another user." });
+
+    if (session.status !== "IN_PROGRESS") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Session is not IN_PROGRESS." });
+    }
+    if (toText(session.locked_by) !== packedBy) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "InnerBox is locked by another user." });
+    }
+
+    // ✅ SKU must exist in the master list (stale clients cannot record unknown SKUs)
+    const skuRow = await findActiveSku(client, sku);
+    if (!skuRow) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: `Invalid SKU: "${sku}" is not in the SKU master.` });
+    }
+
+    // ✅ serial must match the SKU's format rules
+    const serialError = validateSerialRules(skuRow, serialNumber);
+    if (serialError) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: serialError });
+    }
+
+    // ✅ a unit in quarantine is already counted as an exception, it cannot also be a good item
+    const quarantined = await client.query(
+      `SELECT reason_code FROM inbound_exceptions WHERE serial_number = $1 AND status = 'QUARANTINED' LIMIT 1`,
+      [serialNumber]
+    );
+    if (quarantined.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({
+        error: `Serial ${serialNumber} is in quarantine (${quarantined.rows[0].reason_code}).`,
+      });
+    }
+
+    // ✅ MIXED: SKU must be a declared line that still has room
+    if (session.mode === "MIXED") {
+      const lineError = mixedLineError(await loadSessionLines(client, sessionId), sku);
+      if (lineError) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: lineError });
+      }
+    }
+
     // ✅ DB-enforced SKU lock
-const incomingSku = sku; // already uppercased
+    const incomingSku = sku; // already uppercased
+
+    if (session.mode === "MIXED") {
+      // per-line checks above replace the single-SKU lock
+    } else if (!session.locked_sku) {
+      // first item locks the SKU in DB
+      await client.query(
+        `UPDATE inbound_sessions SET locked_sku = $2 WHERE id = $1`,
+        [sessionId, incomingSku]
+      );
+    } else {
+      // subsequent items must match the locked SKU
+      if (toUpperText(session.locked_sku) !== incomingSku) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: `SKU mismatch. Locked SKU is ${session.locked_sku}. You scanned ${incomingSku}`,
+        });
+      }
+    }
 
-if (!session.locked_sku) {
-  // first item locks the SKU in DB
-  await pool.query(
-    `UPDATE inbound_sessions SET locked_sku = $2 WHERE id = $1`,
-    [sessionId, incomingSku]
-  );
-} else {
-  // subsequent items must match the locked SKU
-  if (toUpperText(session.locked_sku) !== incomingSku) {
-    return res.status(409).json({
-      error: `SKU mismatch. Locked SKU is ${session.locked_sku}. You scanned ${incomingSku}`,
-    });
-  }
-}
+    // ✅ supplier serial manifest: warn or block serials the supplier did not list
+    const mismatch = await manifestMismatch(client, toText(session.outerbox_id), serialNumber, sku);
+    if (mismatch && MANIFEST_POLICY === "BLOCK") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: mismatch.message, manifestStatus: mismatch.status });
+    }
 
+    // ✅ item goes into the session's OPEN batch (confirmed batches are final)
+    const batch = await openBatch(client, sessionId, await currentBatchNo(client, sessionId), packedBy);
+    const policy = await sessionWorkflowPolicy(client, { ...session, locked_sku: session.locked_sku || incomingSku });
+    if (policy.confirmBatches) {
+      const filled = await client.query(`SELECT COUNT(*)::int AS n FROM inbound_items WHERE batch_id = $1`, [batch.id]);
+      if (filled.rows[0].n >= policy.batchSize) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: `Batch ${batch.batch_no} is full (${filled.rows[0].n}/${policy.batchSize}). Confirm it before scanning more.`,
+        });
+      }
+    }
 
     // Insert item
     const q = `
       INSERT INTO inbound_items
-        (session_id, outerbox_id, innerbox_id, sku, serial_number, packed_by)
+        (session_id, outerbox_id, innerbox_id, sku, serial_number, packed_by, batch_id, entry_method, sku_entry_method)
       VALUES
-        ($1, $2, $3, $4, $5, $6)
+        ($1, $2, $3, $4, $5, $6, $7, $8, $9)
       RETURNING
         id,
         session_id AS "sessionId",
@@ -366,6 +1307,8 @@ if (!session.locked_sku) {
         sku,
         serial_number AS "serialNumber",
         packed_by AS "packedBy",
+        entry_method AS "entryMethod",
+        sku_entry_method AS "skuEntryMethod",
         created_at AS "createdAt";
     `;
 
@@ -376,33 +1319,52 @@ if (!session.locked_sku) {
       sku,
       serialNumber,
       packedBy,
+      batch.id,
+      entryMethod,
+      skuEntryMethod,
     ];
 
-    const result = await pool.query(q, values);
+    const result = await client.query(q, values);
+    result.rows[0].batchNo = batch.batch_no;
+    if (mismatch) {
+      result.rows[0].manifestStatus = mismatch.status;
+      result.rows[0].manifestWarning = mismatch.message;
+    }
+
+    await writeAudit(client, req.user, "ITEM_ADD", {
+      session,
+      itemId: result.rows[0].id,
+      serials: [serialNumber],
+      after: result.rows[0],
+    });
 
     // Update heartbeat implicitly
-    await pool.query(`UPDATE inbound_sessions SET last_seen = now() WHERE id = $1`, [sessionId]);
+    await client.query(`UPDATE inbound_sessions SET last_seen = now() WHERE id = $1`, [sessionId]);
+
+    if (scanId) await recordScanResult(client, scanId, result.rows[0]);
 
+    await client.query("COMMIT");
+    notifyDashboard();
     return res.status(201).json(result.rows[0]);
   } catch (e) {
+    await client.query("ROLLBACK");
     if (e.code === "23505") {
       return res.status(409).json({ error: "Serial number already exists." });
     }
     return res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
   }
 });
-
 // ----------------------------------------------------
 // 4) COMPLETE / CONFIRM a session (qty match) and unlock
 // POST /api/inbounds/sessions/:id/complete
-// body: { packedBy }
 // ----------------------------------------------------
-app.post("/api/inbounds/sessions/:id/complete", async (req, res) => {
+app.post("/api/inbounds/sessions/:id/complete", requireRole("operator"), async (req, res) => {
   const id = toInt(req.params.id, 0);
-  const packedBy = toText(req.body?.packedBy);
+  const packedBy = req.user.username;
 
   if (!id) return res.status(400).json({ error: "Invalid session id." });
-  if (!packedBy) return res.status(400).json({ error: "packedBy required." });
 
   const client = await pool.connect();
   try {
@@ -438,15 +1400,66 @@ app.post("/api/inbounds/sessions/:id/complete", async (req, res) => {
     );
 
     const scanned = c.rows[0].c;
+    const exceptions = await countSessionExceptions(client, id);
     const expected = toInt(session.expected_qty, 0);
 
     if (expected <= 0) {
       await client.query("ROLLBACK");
       return res.status(400).json({ error: "Expected quantity not set." });
     }
-    if (scanned !== expected) {
+    // exception units (damaged, unreadable, ...) account for their share of the expected qty
+    if (scanned + exceptions !== expected) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({
+        error: exceptions
+          ? `Quantity mismatch: scanned ${scanned} + ${exceptions} exception(s) of ${expected}`
+          : `Quantity mismatch: scanned ${scanned} of ${expected}`,
+      });
+    }
+
+    // ✅ SKUs without batch confirmation: open batches are confirmed together with the InnerBox
+    const policy = await sessionWorkflowPolicy(client, session);
+    if (!policy.confirmBatches) {
+      await client.query(
+        `
+        UPDATE inbound_batches
+        SET status = 'CONFIRMED', confirmed_by = $2, confirmed_at = now()
+        WHERE session_id = $1 AND status = 'OPEN'
+        `,
+        [id, packedBy]
+      );
+    }
+
+    const unconfirmed = await client.query(
+      `
+      SELECT DISTINCT b.batch_no
+      FROM inbound_items i
+      JOIN inbound_batches b ON b.id = i.batch_id
+      WHERE i.session_id = $1 AND b.status = 'OPEN'
+      ORDER BY b.batch_no
+      `,
+      [id]
+    );
+    if (unconfirmed.rows.length) {
       await client.query("ROLLBACK");
-      return res.status(409).json({ error: `Quantity mismatch: scanned ${scanned} of ${expected}` });
+      return res.status(409).json({
+        error: `Batch ${unconfirmed.rows.map((r) => r.batch_no).join(", ")} not confirmed yet.`,
+      });
+    }
+
+    // ✅ MIXED: every declared line must match exactly
+    if (session.mode === "MIXED") {
+      const lines = await loadSessionLines(client, id);
+      const off = lines.filter((l) => l.scannedQty + l.exceptionQty !== l.expectedQty);
+      if (!lines.length || off.length) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: lines.length
+            ? `Line mismatch: ${off.map((l) => `${l.sku} ${l.scannedQty + l.exceptionQty}/${l.expectedQty}`).join(", ")}`
+            : "No SKU lines declared for this mixed InnerBox.",
+          lines,
+        });
+      }
     }
 
     const done = await client.query(
@@ -468,8 +1481,21 @@ app.post("/api/inbounds/sessions/:id/complete", async (req, res) => {
       [id]
     );
 
+    // re-confirmation closes any open reopen record
+    await client.query(
+      `UPDATE session_reopens SET reconfirmed_at = now(), reconfirmed_by = $2 WHERE session_id = $1 AND reconfirmed_at IS NULL`,
+      [id, packedBy]
+    );
+
+    await writeAudit(client, req.user, "SESSION_COMPLETE", {
+      session,
+      before: sessionSnapshot(session),
+      after: done.rows[0],
+    });
+
     await client.query("COMMIT");
-    return res.json({ session: done.rows[0], scanned, expected });
+    notifyDashboard();
+    return res.json({ session: done.rows[0], scanned, exceptions, expected });
   } catch (e) {
     await client.query("ROLLBACK");
     return res.status(500).json({ error: "Server error", details: e.message });
@@ -481,28 +1507,48 @@ app.post("/api/inbounds/sessions/:id/complete", async (req, res) => {
 // ----------------------------------------------------
 // OPTIONAL: Abandon a session (unlock it)
 // POST /api/inbounds/sessions/:id/abandon
-// body: { packedBy }
 // ----------------------------------------------------
-app.post("/api/inbounds/sessions/:id/abandon", async (req, res) => {
+app.post("/api/inbounds/sessions/:id/abandon", requireRole("operator"), async (req, res) => {
   const id = toInt(req.params.id, 0);
-  const packedBy = toText(req.body?.packedBy);
+  const packedBy = req.user.username;
 
   if (!id) return res.status(400).json({ error: "Invalid session id." });
-  if (!packedBy) return res.status(400).json({ error: "packedBy required." });
 
-  const r = await pool.query(
-    `
-    UPDATE inbound_sessions
-    SET status = 'ABANDONED',
-        last_seen = now()
-    WHERE id = $1 AND locked_by = $2 AND status = 'IN_PROGRESS'
-    RETURNING id
-    `,
-    [id, packedBy]
-  );
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const r = await client.query(
+      `
+      UPDATE inbound_sessions
+      SET status = 'ABANDONED',
+          last_seen = now()
+      WHERE id = $1 AND locked_by = $2 AND status = 'IN_PROGRESS'
+      RETURNING *
+      `,
+      [id, packedBy]
+    );
+
+    if (!r.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "Not allowed." });
+    }
 
-  if (!r.rows.length) return res.status(403).json({ error: "Not allowed." });
-  return res.json({ ok: true });
+    await writeAudit(client, req.user, "SESSION_ABANDON", {
+      session: r.rows[0],
+      before: { status: "IN_PROGRESS" },
+      after: { status: "ABANDONED" },
+    });
+
+    await client.query("COMMIT");
+    notifyDashboard();
+    return res.json({ ok: true });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
 });
 
 // ====================================================
@@ -512,7 +1558,7 @@ app.post("/api/inbounds/sessions/:id/abandon", async (req, res) => {
 // ====================================================
 
 // READ: list with optional filters
-app.get("/api/inbounds", async (req, res) => {
+app.get("/api/inbounds", requireRole("operator"), async (req, res) => {
   const { outerBoxId, innerBoxId, sku, serialNumber, limit = 50 } = req.query;
 
   const where = [];
@@ -535,6 +1581,8 @@ app.get("/api/inbounds", async (req, res) => {
       sku,
       serial_number AS "serialNumber",
       packed_by AS "packedBy",
+      entry_method AS "entryMethod",
+      sku_entry_method AS "skuEntryMethod",
       created_at AS "createdAt"
     FROM inbound_items
     ${where.length ? "WHERE " + where.join(" AND ") : ""}
@@ -547,13 +1595,12 @@ app.get("/api/inbounds", async (req, res) => {
 });
 
 // Validate SKU for current session (no serial needed)
-app.post("/api/inbounds/sessions/:id/validate-sku", async (req, res) => {
+app.post("/api/inbounds/sessions/:id/validate-sku", requireRole("operator"), async (req, res) => {
   const id = toInt(req.params.id, 0);
-  const packedBy = toText(req.body?.packedBy);
+  const packedBy = req.user.username;
   const sku = toUpperText(req.body?.sku);
 
   if (!id) return res.status(400).json({ error: "Invalid session id." });
-  if (!packedBy) return res.status(400).json({ error: "packedBy required." });
   if (!sku) return res.status(400).json({ error: "sku required." });
 
   const s = await pool.query(`SELECT * FROM inbound_sessions WHERE id = $1`, [id]);
@@ -563,6 +1610,18 @@ app.post("/api/inbounds/sessions/:id/validate-sku", async (req, res) => {
   if (session.status !== "IN_PROGRESS") return res.status(409).json({ error: "Session is not IN_PROGRESS." });
   if (toText(session.locked_by) !== packedBy) return res.status(403).json({ error: "Locked by another user." });
 
+  if (!(await findActiveSku(pool, sku))) {
+    return res.status(400).json({ error: `Invalid SKU: "${sku}" is not in the SKU master.` });
+  }
+
+  // MIXED: SKU must be a declared line with room left
+  if (session.mode === "MIXED") {
+    const lines = await loadSessionLines(pool, id);
+    const lineError = mixedLineError(lines, sku);
+    if (lineError) return res.status(409).json({ error: lineError, lines });
+    return res.json({ ok: true, lockedSku: "", lines });
+  }
+
   // If lock exists, enforce it
   if (session.locked_sku && toUpperText(session.locked_sku) !== sku) {
     return res.status(409).json({
@@ -576,20 +1635,43 @@ app.post("/api/inbounds/sessions/:id/validate-sku", async (req, res) => {
 });
 
 
-// DELETE by serial (optional)
-app.delete("/api/inbounds/:serialNumber", async (req, res) => {
+// DELETE by serial (optional) -> recycle bin
+app.delete("/api/inbounds/:serialNumber", requireRole("supervisor"), async (req, res) => {
   const serialNumber = toUpperText(req.params.serialNumber);
-  const result = await pool.query(
-    "DELETE FROM inbound_items WHERE serial_number = $1",
-    [serialNumber]
-  );
-  res.json({ deleted: result.rowCount });
+  const reason = toText(req.body?.reason);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const result = await client.query(
+      "DELETE FROM inbound_items WHERE serial_number = $1 RETURNING *",
+      [serialNumber]
+    );
+    for (const row of result.rows) {
+      await binItem(client, row, req.user, reason);
+      await writeAudit(client, req.user, "ITEM_DELETE", {
+        session: itemSessionRef(row),
+        itemId: Number(row.id),
+        serials: [row.serial_number],
+        before: itemSnapshot(row),
+      });
+    }
+
+    await client.query("COMMIT");
+    res.json({ deleted: result.rowCount });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
 });
 // ----------------------------------------------------
 // ADMIN: List all packages (sessions) with summary
 // GET /api/admin/inbounds/sessions
 // ----------------------------------------------------
-app.get("/api/admin/inbounds/sessions", requireAdmin, async (req, res) => {
+app.get("/api/admin/inbounds/sessions", requireRole("supervisor"), async (req, res) => {
   const { limit = 200 } = req.query;
 
   const q = `
@@ -599,10 +1681,19 @@ app.get("/api/admin/inbounds/sessions", requireAdmin, async (req, res) => {
       s.innerbox_id AS "innerBoxId",
       s.expected_qty AS "expectedQty",
       s.status,
+      s.mode,
+      s.locked_by AS "lockedBy",
       s.locked_sku AS "lockedSku",
       s.confirmed_at AS "confirmedAt",
       s.locked_at AS "lockedAt",
-      (SELECT COUNT(*)::int FROM inbound_items i WHERE i.session_id = s.id) AS "scannedQty"
+      s.last_seen AS "lastSeen",
+      s.stale_reason AS "staleReason",
+      (SELECT COUNT(*)::int FROM inbound_items i WHERE i.session_id = s.id) AS "scannedQty",
+      (SELECT COUNT(*)::int FROM inbound_exceptions e WHERE e.session_id = s.id) AS "exceptionQty",
+      (
+        SELECT COUNT(*)::int FROM inbound_items i
+        WHERE i.session_id = s.id AND 'MANUAL' IN (i.entry_method, i.sku_entry_method)
+      ) AS "manualQty"
     FROM inbound_sessions s
     ORDER BY COALESCE(s.confirmed_at, s.locked_at) DESC
     LIMIT $1
@@ -617,7 +1708,7 @@ app.get("/api/admin/inbounds/sessions", requireAdmin, async (req, res) => {
 // PATCH /api/admin/inbounds/items/:id
 // body: { sku?, serialNumber? }
 // ----------------------------------------------------
-app.patch("/api/admin/inbounds/items/:id", requireAdmin, async (req, res) => {
+app.patch("/api/admin/inbounds/items/:id", requireRole("supervisor"), async (req, res) => {
   const itemId = Number(req.params.id);
   if (!itemId) return res.status(400).json({ error: "Invalid item id" });
 
@@ -666,234 +1757,4038 @@ app.patch("/api/admin/inbounds/items/:id", requireAdmin, async (req, res) => {
     // 3) Same validations as scanning
     if (!finalSku || !finalSerial) {
       await client.query("ROLLBACK");
-      return res.status(400).json({ error: "sku and serialNumber are required" });
+      return res.status(400).json({ error: "sku and serialNumber are required" });
+    }
+
+    if (finalSerial === finalSku) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Serial number cannot be the same as SKU." });
+    }
+
+    const skuRow = await findActiveSku(client, finalSku);
+    if (!skuRow) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: `Invalid SKU: "${finalSku}" is not in the SKU master.` });
+    }
+
+    const serialError = validateSerialRules(skuRow, finalSerial);
+    if (serialError) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: serialError });
+    }
+
+    // 4) Enforce DB locked SKU exactly like createInboundItem
+    if (session.mode === "MIXED") {
+      // MIXED: a changed SKU must move into a declared line that still has room
+      if (finalSku !== toUpperText(item.sku)) {
+        const lineError = mixedLineError(await loadSessionLines(client, sessionId), finalSku);
+        if (lineError) {
+          await client.query("ROLLBACK");
+          return res.status(409).json({ error: lineError });
+        }
+      }
+    } else if (!session.locked_sku) {
+      // if lock not set, set it to the edited SKU (first SKU becomes lock)
+      await client.query(`UPDATE inbound_sessions SET locked_sku = $2 WHERE id = $1`, [
+        sessionId,
+        finalSku,
+      ]);
+    } else {
+      // if lock exists, SKU must match
+      if (toUpperText(session.locked_sku) !== finalSku) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: `SKU mismatch. Locked SKU is ${session.locked_sku}. You tried ${finalSku}. Clear Locked SKU first.`,
+        });
+      }
+    }
+
+    // 5) Update the item (serial uniqueness is enforced by your unique index)
+    const updated = await client.query(
+      `
+      UPDATE inbound_items
+      SET sku = $2, serial_number = $3
+      WHERE id = $1
+      RETURNING
+        id,
+        session_id AS "sessionId",
+        sku,
+        serial_number AS "serialNumber",
+        packed_by AS "packedBy",
+        created_at AS "createdAt"
+      `,
+      [itemId, finalSku, finalSerial]
+    );
+
+    await writeAudit(client, req.user, "ITEM_EDIT", {
+      session,
+      itemId,
+      serials: [...new Set([toUpperText(item.serial_number), finalSerial])],
+      before: itemSnapshot(item),
+      after: updated.rows[0],
+    });
+
+    await client.query("COMMIT");
+    res.json({ ok: true, item: updated.rows[0] });
+  } catch (e) {
+    await client.query("ROLLBACK");
+
+    // duplicate serial
+    if (e.code === "23505") {
+      return res.status(409).json({ error: "Serial number already exists." });
+    }
+
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: Update a session (expectedQty / clearLockedSku)
+// PATCH /api/admin/inbounds/sessions/:id
+// body: { expectedQty?, clearLockedSku? }
+// ----------------------------------------------------
+app.patch("/api/admin/inbounds/sessions/:id", requireRole("supervisor"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(400).json({ error: "Invalid session id" });
+
+  const expectedQty = req.body?.expectedQty;
+  const clearLockedSku = !!req.body?.clearLockedSku;
+
+  const sets = [];
+  const values = [];
+  let i = 1;
+
+  if (expectedQty !== undefined) {
+    sets.push(`expected_qty = $${i++}`);
+    values.push(Math.max(0, toInt(expectedQty, 0)));
+  }
+
+  if (clearLockedSku) {
+    sets.push(`locked_sku = NULL`);
+  }
+
+  if (!sets.length) {
+    return res.status(400).json({ error: "No changes provided" });
+  }
+
+  values.push(id);
+
+  const q = `
+    UPDATE inbound_sessions
+    SET ${sets.join(", ")}
+    WHERE id = $${i}
+    RETURNING
+      id,
+      outerbox_id AS "outerBoxId",
+      innerbox_id AS "innerBoxId",
+      expected_qty AS "expectedQty",
+      status,
+      mode,
+      locked_sku AS "lockedSku",
+      confirmed_at AS "confirmedAt",
+      locked_at AS "lockedAt";
+  `;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const s = await client.query(`SELECT * FROM inbound_sessions WHERE id = $1 FOR UPDATE`, [id]);
+    if (!s.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found" });
+    }
+    if (s.rows[0].mode === "MIXED" && expectedQty !== undefined) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Mixed InnerBox quantity comes from its SKU lines." });
+    }
+
+    const r = await client.query(q, values);
+
+    await writeAudit(client, req.user, "SESSION_EDIT", {
+      session: s.rows[0],
+      before: sessionSnapshot(s.rows[0]),
+      after: r.rows[0],
+    });
+
+    await client.query("COMMIT");
+    res.json({ ok: true, session: r.rows[0] });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: Delete a whole session (and its items) -> recycle bin
+// DELETE /api/admin/inbounds/sessions/:id
+// body: { reason? }
+// ----------------------------------------------------
+app.delete("/api/admin/inbounds/sessions/:id", requireRole("admin"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(400).json({ error: "Invalid session id" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const s = await client.query(`SELECT * FROM inbound_sessions WHERE id = $1 FOR UPDATE`, [id]);
+    if (!s.rows.length) {
+      await client.query("ROLLBACK");
+      return res.json({ ok: true, deleted: 0 });
+    }
+
+    const { binId, items: deletedItems } = await binSession(client, s.rows[0], req.user, toText(req.body?.reason));
+
+    await writeAudit(client, req.user, "SESSION_DELETE", {
+      session: s.rows[0],
+      serials: deletedItems.map((r) => r.serial_number),
+      before: { session: sessionSnapshot(s.rows[0]), items: deletedItems.map(itemSnapshot) },
+    });
+
+    await client.query("COMMIT");
+    notifyDashboard();
+    return res.json({ ok: true, deleted: 1, binId });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    return res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ✅ DELETE a session (and its items) by Outer+Inner, regardless of status
+// Deleted boxes go to the recycle bin and can be restored by a supervisor.
+// POST /api/inbounds/sessions/delete-by-box
+// body: { outerBoxId, innerBoxId, reason? }
+app.post("/api/inbounds/sessions/delete-by-box", requireRole("operator"), async (req, res) => {
+  const outer = toText(req.body?.outerBoxId);
+  const inner = toText(req.body?.innerBoxId);
+  const reason = toText(req.body?.reason);
+  const packedBy = req.user.username;
+
+  if (!outer || !inner) {
+    return res.status(400).json({ error: "outerBoxId and innerBoxId are required." });
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // lock session row
+    const s = await client.query(
+      `
+      SELECT *
+      FROM inbound_sessions
+      WHERE outerbox_id = $1 AND innerbox_id = $2
+      FOR UPDATE
+      `,
+      [outer, inner]
+    );
+
+    if (!s.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found in database." });
+    }
+
+    const session = s.rows[0];
+
+    // lease expiry logic (same as claim)
+    const lastSeenMs = new Date(session.last_seen).getTime();
+    const leaseExpired = Date.now() - lastSeenMs > LEASE_MS;
+
+    // allow delete if same locker OR lease expired
+    if (toText(session.locked_by) !== packedBy && !leaseExpired) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({
+        error: `InnerBox is in progress by "${session.locked_by}". Cannot delete until lease expires.`,
+        lockedBy: session.locked_by,
+      });
+    }
+
+    // move session + items to the recycle bin
+    const { binId, items: deletedItems } = await binSession(client, session, req.user, reason);
+
+    await writeAudit(client, req.user, "SESSION_DELETE", {
+      session,
+      serials: deletedItems.map((r) => r.serial_number),
+      before: { session: sessionSnapshot(session), items: deletedItems.map(itemSnapshot) },
+    });
+
+    await client.query("COMMIT");
+    notifyDashboard();
+
+    return res.json({
+      ok: true,
+      sessionId: session.id,
+      status: session.status,
+      deletedItems: deletedItems.length,
+      deletedSession: 1,
+      binId,
+    });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    return res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+
+// ====================================================
+// ✅ SKU MASTER (replaces bundled Frontend data/sku.json)
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS skus (
+//   id BIGSERIAL PRIMARY KEY,
+//   sku TEXT NOT NULL UNIQUE,          -- stored UPPERCASE
+//   description TEXT NOT NULL DEFAULT '',
+//   active BOOLEAN NOT NULL DEFAULT true,
+//   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+//   updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+// );
+//
+// -- serial number format rules (all optional)
+// ALTER TABLE skus ADD COLUMN IF NOT EXISTS serial_length INT;
+// ALTER TABLE skus ADD COLUMN IF NOT EXISTS serial_prefix TEXT;      -- comma separated allowed prefixes
+// ALTER TABLE skus ADD COLUMN IF NOT EXISTS serial_regex TEXT;
+// ALTER TABLE skus ADD COLUMN IF NOT EXISTS serial_check_digit TEXT NOT NULL DEFAULT 'NONE'; -- NONE | LUHN | GS1
+//
+// -- seed (previous contents of data/sku.json)
+// INSERT INTO skus (sku) VALUES ('BM100NN512G-RGX'), ('BNV720004TB-RGX'), ('AX3000S')
+//   ON CONFLICT (sku) DO NOTHING;
+// ====================================================
+
+const SKU_RULE_COLUMNS = `
+  serial_length AS "serialLength",
+  serial_prefix AS "serialPrefix",
+  serial_regex AS "serialRegex",
+  serial_check_digit AS "serialCheckDigit",
+  batch_size AS "batchSize",
+  confirm_batches AS "confirmBatches",
+  double_scan_inner AS "doubleScanInner"
+`;
+
+const SKU_COLUMNS = `
+  id,
+  sku,
+  description,
+  active,
+  ${SKU_RULE_COLUMNS},
+  created_at AS "createdAt",
+  updated_at AS "updatedAt"
+`;
+
+// ----------------------------------------------------
+// Versioned SKU list for scanning clients (cached on device)
+// GET /api/skus?version=<cached version>
+// -> { version, unchanged: true } when the client copy is current
+// ----------------------------------------------------
+app.get("/api/skus", requireRole("operator"), async (req, res) => {
+  try {
+    const version = await skuMasterVersion(pool);
+    if (toText(req.query.version) === version) {
+      return res.json({ version, unchanged: true });
+    }
+
+    const r = await pool.query(
+      `SELECT sku, description, ${SKU_RULE_COLUMNS} FROM skus WHERE active = true ORDER BY sku ASC`
+    );
+    return res.json({ version, skus: r.rows });
+  } catch (e) {
+    return res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: SKU master CRUD
+// GET    /api/admin/skus
+// POST   /api/admin/skus        body: { sku, description?, active?, serialLength?, serialPrefix?, serialRegex?, serialCheckDigit?,
+//                                        batchSize?, confirmBatches?, doubleScanInner? }
+// PATCH  /api/admin/skus/:id    body: same fields, all optional
+// DELETE /api/admin/skus/:id
+// ----------------------------------------------------
+app.get("/api/admin/skus", requireRole("admin"), async (req, res) => {
+  const r = await pool.query(`SELECT ${SKU_COLUMNS} FROM skus ORDER BY sku ASC`);
+  res.json({ version: await skuMasterVersion(pool), skus: r.rows });
+});
+
+app.post("/api/admin/skus", requireRole("admin"), async (req, res) => {
+  const sku = toUpperText(req.body?.sku);
+  const description = toText(req.body?.description);
+  const active = req.body?.active === undefined ? true : !!req.body.active;
+
+  if (!sku) return res.status(400).json({ error: "sku is required." });
+
+  const rules = readSerialRules(req.body);
+  if (rules.error) return res.status(400).json({ error: rules.error });
+  const flow = readWorkflowRules(req.body);
+  if (flow.error) return res.status(400).json({ error: flow.error });
+  Object.assign(rules.values, flow.values);
+
+  const ruleCols = Object.keys(rules.values);
+  const cols = ["sku", "description", "active", ...ruleCols];
+  const values = [sku, description, active, ...ruleCols.map((c) => rules.values[c])];
+
+  try {
+    const r = await pool.query(
+      `
+      INSERT INTO skus (${cols.join(", ")})
+      VALUES (${cols.map((_, idx) => `$${idx + 1}`).join(", ")})
+      RETURNING ${SKU_COLUMNS}
+      `,
+      values
+    );
+    res.status(201).json({ ok: true, sku: r.rows[0] });
+  } catch (e) {
+    if (e.code === "23505") return res.status(409).json({ error: `SKU ${sku} already exists.` });
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+app.patch("/api/admin/skus/:id", requireRole("admin"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(400).json({ error: "Invalid SKU id" });
+
+  const sets = [];
+  const values = [];
+  let i = 1;
+
+  if (req.body?.sku !== undefined) {
+    const sku = toUpperText(req.body.sku);
+    if (!sku) return res.status(400).json({ error: "sku cannot be empty" });
+    sets.push(`sku = $${i++}`);
+    values.push(sku);
+  }
+  if (req.body?.description !== undefined) {
+    sets.push(`description = $${i++}`);
+    values.push(toText(req.body.description));
+  }
+  if (req.body?.active !== undefined) {
+    sets.push(`active = $${i++}`);
+    values.push(!!req.body.active);
+  }
+
+  const rules = readSerialRules(req.body);
+  if (rules.error) return res.status(400).json({ error: rules.error });
+  const flow = readWorkflowRules(req.body);
+  if (flow.error) return res.status(400).json({ error: flow.error });
+  Object.assign(rules.values, flow.values);
+  for (const [col, v] of Object.entries(rules.values)) {
+    sets.push(`${col} = $${i++}`);
+    values.push(v);
+  }
+
+  if (!sets.length) return res.status(400).json({ error: "No changes provided" });
+
+  sets.push(`updated_at = now()`);
+  values.push(id);
+
+  try {
+    const r = await pool.query(
+      `UPDATE skus SET ${sets.join(", ")} WHERE id = $${i} RETURNING ${SKU_COLUMNS}`,
+      values
+    );
+    if (!r.rows.length) return res.status(404).json({ error: "SKU not found" });
+    res.json({ ok: true, sku: r.rows[0] });
+  } catch (e) {
+    if (e.code === "23505") return res.status(409).json({ error: "SKU already exists." });
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+app.delete("/api/admin/skus/:id", requireRole("admin"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(400).json({ error: "Invalid SKU id" });
+
+  const r = await pool.query(`DELETE FROM skus WHERE id = $1`, [id]);
+  res.json({ ok: true, deleted: r.rowCount });
+});
+
+// ====================================================
+// ✅ ADMIN: INBOUND REPORT EXPORT (CSV / XLSX)
+// Streams every matching inbound_items row (no 200-row cap like GET /api/inbounds),
+// ordered/grouped by outerbox -> innerbox, with expected vs scanned from inbound_sessions.
+// ====================================================
+
+const EXPORT_PAGE_SIZE = 1000;
+
+// Builds the WHERE clause shared by the item and summary queries (alias i = inbound_items)
+function exportFilters(query) {
+  const where = [];
+  const values = [];
+  let n = 1;
+
+  const outerBoxId = toText(query.outerBoxId);
+  const innerBoxId = toText(query.innerBoxId);
+  const packedBy = toText(query.packedBy);
+  const sku = toUpperText(query.sku);
+  const from = toText(query.from); // YYYY-MM-DD (inclusive)
+  const to = toText(query.to); // YYYY-MM-DD (inclusive)
+
+  if (outerBoxId) { where.push(`i.outerbox_id = $${n++}`); values.push(outerBoxId); }
+  if (innerBoxId) { where.push(`i.innerbox_id = $${n++}`); values.push(innerBoxId); }
+  if (packedBy) { where.push(`i.packed_by = $${n++}`); values.push(packedBy); }
+  if (sku) { where.push(`i.sku = $${n++}`); values.push(sku); }
+  if (from) { where.push(`i.created_at >= $${n++}::date`); values.push(from); }
+  if (to) { where.push(`i.created_at < ($${n++}::date + 1)`); values.push(to); }
+
+  return { where, values };
+}
+
+// from/to must be real calendar dates: once the CSV header is out a bad cast can only cut the download short
+function exportDateError(query) {
+  for (const name of ["from", "to"]) {
+    const value = toText(query[name]);
+    if (!value) continue;
+    const d = new Date(`${value}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(d) || d.toISOString().slice(0, 10) !== value) {
+      return `${name} must be a date in YYYY-MM-DD format.`;
+    }
+  }
+  return null;
+}
+
+// Keyset-paged reader so large exports never load the whole table into memory
+async function* exportItemPages(query) {
+  const { where, values } = exportFilters(query);
+  let cursor = null;
+
+  while (true) {
+    const w = [...where];
+    const v = [...values];
+    if (cursor) {
+      w.push(`(i.outerbox_id, i.innerbox_id, i.id) > ($${v.length + 1}, $${v.length + 2}, $${v.length + 3})`);
+      v.push(cursor.outerBoxId, cursor.innerBoxId, cursor.id);
+    }
+    v.push(EXPORT_PAGE_SIZE);
+
+    const r = await pool.query(
+      `
+      SELECT
+        i.id,
+        i.outerbox_id AS "outerBoxId",
+        i.innerbox_id AS "innerBoxId",
+        i.sku,
+        i.serial_number AS "serialNumber",
+        i.packed_by AS "packedBy",
+        i.created_at AS "createdAt",
+        s.expected_qty AS "expectedQty",
+        COALESCE(c.scanned, 0) AS "scannedQty",
+        s.status,
+        s.confirmed_at AS "confirmedAt"
+      FROM inbound_items i
+      LEFT JOIN inbound_sessions s ON s.id = i.session_id
+      LEFT JOIN (
+        SELECT session_id, COUNT(*)::int AS scanned FROM inbound_items GROUP BY session_id
+      ) c ON c.session_id = i.session_id
+      ${w.length ? "WHERE " + w.join(" AND ") : ""}
+      ORDER BY i.outerbox_id, i.innerbox_id, i.id
+      LIMIT $${v.length}
+      `,
+      v
+    );
+
+    if (!r.rows.length) return;
+    yield r.rows;
+
+    if (r.rows.length < EXPORT_PAGE_SIZE) return;
+    cursor = r.rows[r.rows.length - 1];
+  }
+}
+
+// One row per inner box that has matching items
+async function exportBoxSummary(query) {
+  const { where, values } = exportFilters(query);
+  const r = await pool.query(
+    `
+    SELECT
+      i.outerbox_id AS "outerBoxId",
+      i.innerbox_id AS "innerBoxId",
+      string_agg(DISTINCT i.sku, ', ') AS skus,
+      MAX(s.expected_qty) AS "expectedQty",
+      (SELECT COUNT(*)::int FROM inbound_items x WHERE x.session_id = i.session_id) AS "scannedQty",
+      COUNT(*)::int AS "exportedQty",
+      MAX(s.status) AS status,
+      MAX(s.confirmed_at) AS "confirmedAt"
+    FROM inbound_items i
+    LEFT JOIN inbound_sessions s ON s.id = i.session_id
+    ${where.length ? "WHERE " + where.join(" AND ") : ""}
+    GROUP BY i.outerbox_id, i.innerbox_id, i.session_id
+    ORDER BY i.outerbox_id, i.innerbox_id
+    `,
+    values
+  );
+  return r.rows;
+}
+
+function csvCell(v) {
+  if (v === null || v === undefined) return "";
+  const str = v instanceof Date ? v.toISOString() : String(v);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+const EXPORT_ITEM_HEADERS = [
+  ["outerBoxId", "Outer Box"],
+  ["innerBoxId", "Inner Box"],
+  ["expectedQty", "Expected Qty"],
+  ["scannedQty", "Scanned Qty"],
+  ["sku", "SKU"],
+  ["serialNumber", "Serial Number"],
+  ["packedBy", "Packed By"],
+  ["createdAt", "Scanned At"],
+  ["status", "Session Status"],
+  ["confirmedAt", "Confirmed At"],
+];
+
+// ----------------------------------------------------
+// GET /api/admin/inbounds/export
+// query: format=csv|xlsx, outerBoxId?, innerBoxId?, packedBy?, sku?, from?, to? (YYYY-MM-DD)
+// ----------------------------------------------------
+app.get("/api/admin/inbounds/export", requireRole("supervisor"), async (req, res) => {
+  const format = toText(req.query.format).toLowerCase() || "csv";
+  if (!["csv", "xlsx"].includes(format)) {
+    return res.status(400).json({ error: "format must be csv or xlsx." });
+  }
+  const dateError = exportDateError(req.query);
+  if (dateError) return res.status(400).json({ error: dateError });
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const filename = `inbound-export-${stamp}.${format}`;
+
+  try {
+    if (format === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+      res.write(EXPORT_ITEM_HEADERS.map(([, label]) => csvCell(label)).join(",") + "\r\n");
+      for await (const rows of exportItemPages(req.query)) {
+        const chunk = rows
+          .map((row) => EXPORT_ITEM_HEADERS.map(([key]) => csvCell(row[key])).join(","))
+          .join("\r\n");
+        res.write(chunk + "\r\n");
+      }
+      return res.end();
+    }
+
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+
+    // Summary sheet: expected vs scanned per inner box
+    const summary = workbook.addWorksheet("Summary");
+    summary.columns = [
+      { header: "Outer Box", key: "outerBoxId", width: 20 },
+      { header: "Inner Box", key: "innerBoxId", width: 20 },
+      { header: "SKU", key: "skus", width: 24 },
+      { header: "Expected Qty", key: "expectedQty", width: 14 },
+      { header: "Scanned Qty", key: "scannedQty", width: 14 },
+      { header: "Difference", key: "difference", width: 12 },
+      { header: "Status", key: "status", width: 14 },
+      { header: "Confirmed At", key: "confirmedAt", width: 24 },
+    ];
+    summary.getRow(1).font = { bold: true };
+    for (const box of await exportBoxSummary(req.query)) {
+      summary
+        .addRow({ ...box, difference: (box.scannedQty ?? 0) - (box.expectedQty ?? 0) })
+        .commit();
+    }
+    summary.commit();
+
+    // Items sheet: one row per serial, inner boxes as outline groups
+    const sheet = workbook.addWorksheet("Items");
+    sheet.columns = EXPORT_ITEM_HEADERS.map(([key, header]) => ({
+      header,
+      key,
+      width: key === "serialNumber" || key.endsWith("At") ? 24 : 16,
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    let group = "";
+    for await (const rows of exportItemPages(req.query)) {
+      for (const row of rows) {
+        const key = `${row.outerBoxId}\u0000${row.innerBoxId}`;
+        if (key !== group) {
+          group = key;
+          const header = sheet.addRow({
+            outerBoxId: row.outerBoxId,
+            innerBoxId: row.innerBoxId,
+            expectedQty: row.expectedQty,
+            scannedQty: row.scannedQty,
+            status: row.status,
+            confirmedAt: row.confirmedAt,
+          });
+          header.font = { bold: true };
+          header.commit();
+        }
+        const line = sheet.addRow(row);
+        line.outlineLevel = 1;
+        line.commit();
+      }
+    }
+    sheet.commit();
+
+    await workbook.commit();
+  } catch (e) {
+    if (!res.headersSent) {
+      return res.status(500).json({ error: "Server error", details: e.message });
+    }
+    res.destroy(e);
+  }
+});
+
+// ====================================================
+// ✅ PACKING MANIFESTS / BOX LABELS (PDF + ZPL)
+// All label layouts live here so every device prints the same thing.
+// Only CONFIRMED inner boxes are printable (manifest carries the confirmed timestamp).
+// ====================================================
+
+const ZPL_SERIALS_PER_LABEL = 24;
+const ZPL_BOXES_PER_LABEL = 14;
+
+async function loadInnerManifest(db, sessionId) {
+  const s = await db.query(
+    `
+    SELECT
+      id,
+      outerbox_id AS "outerBoxId",
+      innerbox_id AS "innerBoxId",
+      expected_qty AS "expectedQty",
+      status,
+      locked_by AS "packedBy",
+      locked_sku AS "sku",
+      confirmed_at AS "confirmedAt"
+    FROM inbound_sessions
+    WHERE id = $1
+    `,
+    [sessionId]
+  );
+  if (!s.rows.length) return null;
+
+  const items = await db.query(
+    `SELECT sku, serial_number AS "serialNumber" FROM inbound_items WHERE session_id = $1 ORDER BY id ASC`,
+    [sessionId]
+  );
+
+  const box = s.rows[0];
+  return {
+    ...box,
+    sku: box.sku || [...new Set(items.rows.map((r) => r.sku))].join(", "), // MIXED boxes list every SKU
+    qty: items.rows.length,
+    serials: items.rows.map((r) => r.serialNumber),
+  };
+}
+
+async function loadOuterManifest(db, outerBoxId) {
+  const s = await db.query(
+    `
+    SELECT id FROM inbound_sessions
+    WHERE outerbox_id = $1 AND status = 'CONFIRMED'
+    ORDER BY confirmed_at ASC, id ASC
+    `,
+    [outerBoxId]
+  );
+
+  const boxes = [];
+  for (const row of s.rows) boxes.push(await loadInnerManifest(db, row.id));
+
+  return {
+    outerBoxId,
+    boxes,
+    innerBoxCount: boxes.length,
+    totalQty: boxes.reduce((sum, b) => sum + b.qty, 0),
+    operators: [...new Set(boxes.map((b) => b.packedBy).filter(Boolean))],
+    confirmedAt: boxes.length ? boxes[boxes.length - 1].confirmedAt : null,
+  };
+}
+
+function fmtTime(v) {
+  return v ? new Date(v).toISOString().replace("T", " ").slice(0, 19) + " UTC" : "-";
+}
+
+// QR payload is pipe separated so handheld scanners can split it without JSON parsing
+function innerQrPayload(box) {
+  return ["INNER", box.outerBoxId, box.innerBoxId, box.sku, box.qty].join("|");
+}
+function outerQrPayload(m) {
+  return ["OUTER", m.outerBoxId, m.innerBoxCount, m.totalQty].join("|");
+}
+
+// ---------- PDF ----------
+async function barcodePng(text) {
+  return bwipjs.toBuffer({ bcid: "code128", text, scale: 2, height: 12, includetext: true, textxalign: "center" });
+}
+async function qrPng(text) {
+  return bwipjs.toBuffer({ bcid: "qrcode", text, scale: 3 });
+}
+
+// Barcode + QR images of a box; rendered before the PDF is piped so a failure is still a JSON 500
+async function innerBoxImages(box) {
+  return { barcode: await barcodePng(box.innerBoxId), qr: await qrPng(innerQrPayload(box)) };
+}
+
+function pdfInnerSection(doc, box, images) {
+  const top = doc.y;
+  doc.image(images.barcode, 40, top, { height: 50 });
+  doc.image(images.qr, 470, top, { width: 80 });
+
+  doc.y = top + 90;
+  doc.x = 40;
+  doc.fontSize(11);
+  doc.text(`Outer Box: ${box.outerBoxId}`);
+  doc.text(`Inner Box: ${box.innerBoxId}`);
+  doc.text(`SKU: ${box.sku}`);
+  doc.text(`Quantity: ${box.qty} / ${box.expectedQty}`);
+  doc.text(`Operator: ${box.packedBy}`);
+  doc.text(`Confirmed: ${fmtTime(box.confirmedAt)}`);
+  doc.moveDown(0.5);
+
+  doc.fontSize(10).text("Serial Numbers", { underline: true });
+  doc.moveDown(0.3);
+
+  // 3 columns of serials
+  doc.font("Courier").fontSize(9);
+  const colWidth = 170;
+  for (let i = 0; i < box.serials.length; i += 3) {
+    if (doc.y > doc.page.height - 60) doc.addPage();
+    const y = doc.y;
+    box.serials.slice(i, i + 3).forEach((sn, c) => {
+      doc.text(`${i + c + 1}. ${sn}`, 40 + c * colWidth, y, { width: colWidth - 10, lineBreak: false });
+    });
+    doc.x = 40;
+    doc.y = y + 13;
+  }
+  doc.font("Helvetica");
+}
+
+function pdfResponse(res, filename) {
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `inline; filename="${safeFilename(filename)}"`);
+  const doc = new PDFDocument({ size: "A4", margin: 40 });
+  doc.pipe(res);
+  return doc;
+}
+
+async function renderInnerPdf(res, box) {
+  const images = await innerBoxImages(box);
+
+  const doc = pdfResponse(res, `manifest-${box.outerBoxId}-${box.innerBoxId}.pdf`);
+  doc.fontSize(16).text("Packing Manifest - Inner Box", { align: "left" });
+  doc.moveDown(0.5);
+  pdfInnerSection(doc, box, images);
+  doc.end();
+}
+
+async function renderOuterPdf(res, m) {
+  const barcode = await barcodePng(m.outerBoxId);
+  const qr = await qrPng(outerQrPayload(m));
+  const boxImages = [];
+  for (const b of m.boxes) boxImages.push(await innerBoxImages(b));
+
+  const doc = pdfResponse(res, `manifest-${m.outerBoxId}.pdf`);
+  doc.fontSize(16).text("Packing Manifest - Outer Box");
+  doc.moveDown(0.5);
+
+  const top = doc.y;
+  doc.image(barcode, 40, top, { height: 50 });
+  doc.image(qr, 470, top, { width: 80 });
+  doc.y = top + 90;
+  doc.x = 40;
+  doc.fontSize(11);
+  doc.text(`Outer Box: ${m.outerBoxId}`);
+  doc.text(`Inner Boxes: ${m.innerBoxCount}`);
+  doc.text(`Total Quantity: ${m.totalQty}`);
+  doc.text(`Operators: ${m.operators.join(", ") || "-"}`);
+  doc.text(`Last Confirmed: ${fmtTime(m.confirmedAt)}`);
+  doc.moveDown(0.5);
+
+  doc.fontSize(10).text("Inner Boxes", { underline: true });
+  doc.moveDown(0.3);
+  for (const b of m.boxes) {
+    doc.text(`${b.innerBoxId}    ${b.sku}    qty ${b.qty}    ${b.packedBy}    ${fmtTime(b.confirmedAt)}`);
+  }
+
+  m.boxes.forEach((b, i) => {
+    doc.addPage();
+    doc.fontSize(14).text(`Inner Box ${b.innerBoxId}`);
+    doc.moveDown(0.5);
+    pdfInnerSection(doc, b, boxImages[i]);
+  });
+  doc.end();
+}
+
+// ---------- ZPL (4x6 in @ 203 dpi) ----------
+function zplText(v) {
+  // ^ and ~ are ZPL command prefixes
+  return String(v ?? "").replace(/[\^~]/g, " ");
+}
+
+function zplLabel(lines) {
+  return ["^XA", "^CI28", "^PW812", "^LL1218", ...lines, "^XZ"].join("\n");
+}
+
+function chunk(list, size) {
+  const out = [];
+  for (let i = 0; i < list.length; i += size) out.push(list.slice(i, i + size));
+  return out.length ? out : [[]];
+}
+
+function renderInnerZpl(box) {
+  const pages = chunk(box.serials, ZPL_SERIALS_PER_LABEL);
+  return pages
+    .map((serials, p) => {
+      const lines = [
+        "^FO40,30^A0N,40,40^FDINNER BOX MANIFEST^FS",
+        `^FO40,80^A0N,28,28^FDPage ${p + 1}/${pages.length}^FS`,
+        `^FO40,130^BY2^BCN,90,Y,N,N^FD${zplText(box.innerBoxId)}^FS`,
+        `^FO600,110^BQN,2,5^FDQA,${zplText(innerQrPayload(box))}^FS`,
+        `^FO40,290^A0N,30,30^FDOuter: ${zplText(box.outerBoxId)}^FS`,
+        `^FO40,330^A0N,30,30^FDSKU: ${zplText(box.sku)}^FS`,
+        `^FO40,370^A0N,30,30^FDQty: ${box.qty} / ${box.expectedQty}^FS`,
+        `^FO40,410^A0N,30,30^FDOperator: ${zplText(box.packedBy)}^FS`,
+        `^FO40,450^A0N,26,26^FDConfirmed: ${fmtTime(box.confirmedAt)}^FS`,
+        "^FO40,495^GB732,2,2^FS",
+      ];
+      serials.forEach((sn, i) => {
+        const col = i % 2;
+        const row = Math.floor(i / 2);
+        const n = p * ZPL_SERIALS_PER_LABEL + i + 1;
+        lines.push(`^FO${40 + col * 380},${515 + row * 44}^A0N,26,26^FD${n}. ${zplText(sn)}^FS`);
+      });
+      return zplLabel(lines);
+    })
+    .join("\n");
+}
+
+function renderOuterZpl(m) {
+  const pages = chunk(m.boxes, ZPL_BOXES_PER_LABEL);
+  return pages
+    .map((boxes, p) => {
+      const lines = [
+        "^FO40,30^A0N,40,40^FDOUTER BOX MANIFEST^FS",
+        `^FO40,80^A0N,28,28^FDPage ${p + 1}/${pages.length}^FS`,
+        `^FO40,130^BY2^BCN,90,Y,N,N^FD${zplText(m.outerBoxId)}^FS`,
+        `^FO600,110^BQN,2,5^FDQA,${zplText(outerQrPayload(m))}^FS`,
+        `^FO40,290^A0N,30,30^FDInner boxes: ${m.innerBoxCount}   Total qty: ${m.totalQty}^FS`,
+        `^FO40,330^A0N,26,26^FDOperators: ${zplText(m.operators.join(", "))}^FS`,
+        `^FO40,370^A0N,26,26^FDLast confirmed: ${fmtTime(m.confirmedAt)}^FS`,
+        "^FO40,410^GB732,2,2^FS",
+      ];
+      boxes.forEach((b, i) => {
+        lines.push(
+          `^FO40,${430 + i * 52}^A0N,28,28^FD${zplText(b.innerBoxId)}  ${zplText(b.sku)}  x${b.qty}^FS`
+        );
+      });
+      return zplLabel(lines);
+    })
+    .join("\n");
+}
+
+function sendZpl(res, filename, body) {
+  res.setHeader("Content-Type", "text/plain; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${safeFilename(filename)}"`);
+  res.send(body);
+}
+
+// ----------------------------------------------------
+// Inner box manifest
+// GET /api/inbounds/sessions/:id/manifest?format=pdf|zpl
+// ----------------------------------------------------
+app.get("/api/inbounds/sessions/:id/manifest", requireRole("operator"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const format = toText(req.query.format).toLowerCase() || "pdf";
+
+  if (!id) return res.status(400).json({ error: "Invalid session id." });
+  if (!["pdf", "zpl"].includes(format)) return res.status(400).json({ error: "format must be pdf or zpl." });
+
+  try {
+    const box = await loadInnerManifest(pool, id);
+    if (!box) return res.status(404).json({ error: "Session not found." });
+    if (box.status !== "CONFIRMED") {
+      return res.status(409).json({ error: "InnerBox must be CONFIRMED before printing." });
+    }
+
+    if (format === "zpl") {
+      return sendZpl(res, `manifest-${box.outerBoxId}-${box.innerBoxId}.zpl`, renderInnerZpl(box));
+    }
+    await renderInnerPdf(res, box);
+  } catch (e) {
+    if (!res.headersSent) return res.status(500).json({ error: "Server error", details: e.message });
+    res.destroy(e);
+  }
+});
+
+// ----------------------------------------------------
+// Outer box manifest (all CONFIRMED inner boxes)
+// GET /api/inbounds/outerboxes/:outerBoxId/manifest?format=pdf|zpl
+// ----------------------------------------------------
+app.get("/api/inbounds/outerboxes/:outerBoxId/manifest", requireRole("operator"), async (req, res) => {
+  const outer = toText(req.params.outerBoxId);
+  const format = toText(req.query.format).toLowerCase() || "pdf";
+
+  if (!outer) return res.status(400).json({ error: "outerBoxId is required." });
+  if (!["pdf", "zpl"].includes(format)) return res.status(400).json({ error: "format must be pdf or zpl." });
+
+  try {
+    const m = await loadOuterManifest(pool, outer);
+    if (!m.boxes.length) {
+      return res.status(404).json({ error: "No CONFIRMED InnerBoxes for this OuterBox." });
+    }
+
+    if (format === "zpl") return sendZpl(res, `manifest-${outer}.zpl`, renderOuterZpl(m));
+    await renderOuterPdf(res, m);
+  } catch (e) {
+    if (!res.headersSent) return res.status(500).json({ error: "Server error", details: e.message });
+    res.destroy(e);
+  }
+});
+
+// ====================================================
+// ✅ ASN / PURCHASE ORDER RECONCILIATION
+// An advance shipping notice lists the inner boxes expected in each outer box,
+// with SKU + quantity. Claims on a listed inner box take qty + SKU lock from the ASN.
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS asns (
+//   id BIGSERIAL PRIMARY KEY,
+//   asn_number TEXT NOT NULL UNIQUE,
+//   po_number TEXT NOT NULL DEFAULT '',
+//   supplier TEXT NOT NULL DEFAULT '',
+//   created_by TEXT NOT NULL,
+//   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+// );
+//
+// CREATE TABLE IF NOT EXISTS asn_lines (
+//   id BIGSERIAL PRIMARY KEY,
+//   asn_id BIGINT NOT NULL REFERENCES asns(id) ON DELETE CASCADE,
+//   outerbox_id TEXT NOT NULL,
+//   innerbox_id TEXT NOT NULL,
+//   sku TEXT NOT NULL,
+//   expected_qty INT NOT NULL CHECK (expected_qty > 0),
+//   UNIQUE (outerbox_id, innerbox_id)
+// );
+//
+// CREATE INDEX IF NOT EXISTS asn_lines_outerbox_idx ON asn_lines (outerbox_id);
+// ====================================================
+
+// normalized CSV header -> field
+const ASN_CSV_FIELDS = {
+  asnnumber: "asnNumber",
+  asn: "asnNumber",
+  ponumber: "poNumber",
+  po: "poNumber",
+  supplier: "supplier",
+  outerboxid: "outerBoxId",
+  outerbox: "outerBoxId",
+  innerboxid: "innerBoxId",
+  innerbox: "innerBoxId",
+  sku: "sku",
+  expectedqty: "expectedQty",
+  qty: "expectedQty",
+};
+
+// Minimal RFC 4180 parser (quoted fields, "" escapes, CRLF)
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") { row.push(field); field = ""; }
+    else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field !== "" || row.length) { row.push(field); rows.push(row); }
+
+  return rows.filter((r) => r.some((c) => toText(c) !== ""));
+}
+
+// CSV text or JSON body -> flat list of { asnNumber, poNumber, supplier, outerBoxId, innerBoxId, sku, expectedQty }
+function readAsnRows(req) {
+  const defaults = {
+    asnNumber: toText(req.query.asnNumber),
+    poNumber: toText(req.query.poNumber),
+    supplier: toText(req.query.supplier),
+  };
+
+  if (typeof req.body === "string") {
+    const [header, ...data] = parseCsv(req.body);
+    if (!header) return { error: "CSV is empty." };
+
+    const fields = header.map((h) => ASN_CSV_FIELDS[toText(h).toLowerCase().replace(/[^a-z]/g, "")]);
+    for (const required of ["outerBoxId", "innerBoxId", "sku", "expectedQty"]) {
+      if (!fields.includes(required)) return { error: `CSV is missing the ${required} column.` };
+    }
+
+    return {
+      rows: data.map((cells) => {
+        const row = { ...defaults };
+        fields.forEach((f, i) => { if (f && toText(cells[i])) row[f] = toText(cells[i]); });
+        return row;
+      }),
+    };
+  }
+
+  // JSON: one ASN { asnNumber, poNumber?, supplier?, lines: [...] }, or { asns: [...] }, or an array of ASNs
+  const body = req.body;
+  const asns = Array.isArray(body) ? body : Array.isArray(body?.asns) ? body.asns : body ? [body] : [];
+  const rows = [];
+  for (const a of asns) {
+    const lines = Array.isArray(a?.lines) ? a.lines : [];
+    for (const l of lines) {
+      rows.push({
+        asnNumber: toText(a.asnNumber) || defaults.asnNumber,
+        poNumber: toText(a.poNumber) || defaults.poNumber,
+        supplier: toText(a.supplier) || defaults.supplier,
+        outerBoxId: toText(l?.outerBoxId),
+        innerBoxId: toText(l?.innerBoxId),
+        sku: toText(l?.sku),
+        expectedQty: l?.expectedQty,
+      });
+    }
+  }
+  return { rows };
+}
+
+// ASN line for a box (with its ASN header), or null
+async function findAsnLine(db, outerBoxId, innerBoxId) {
+  const r = await db.query(
+    `
+    SELECT l.*, a.asn_number, a.po_number
+    FROM asn_lines l
+    JOIN asns a ON a.id = l.asn_id
+    WHERE l.outerbox_id = $1 AND l.innerbox_id = $2
+    `,
+    [outerBoxId, innerBoxId]
+  );
+  return r.rows[0] || null;
+}
+
+// ASN numbers that list this outer box (used to flag unexpected inner boxes)
+async function asnNumbersForOuterbox(db, outerBoxId) {
+  const r = await db.query(
+    `
+    SELECT DISTINCT a.asn_number
+    FROM asn_lines l
+    JOIN asns a ON a.id = l.asn_id
+    WHERE l.outerbox_id = $1
+    `,
+    [outerBoxId]
+  );
+  return r.rows.map((x) => x.asn_number);
+}
+
+function asnLineInfo(line) {
+  if (!line) return null;
+  return {
+    asnNumber: line.asn_number,
+    poNumber: line.po_number,
+    outerBoxId: line.outerbox_id,
+    innerBoxId: line.innerbox_id,
+    sku: line.sku,
+    expectedQty: line.expected_qty,
+  };
+}
+
+// ----------------------------------------------------
+// Lookup for the NEW PACKAGE screen (pre-fills qty before claiming)
+// GET /api/inbounds/asn-lookup?outerBoxId=&innerBoxId=
+// ----------------------------------------------------
+app.get("/api/inbounds/asn-lookup", requireRole("operator"), async (req, res) => {
+  const outer = toText(req.query.outerBoxId);
+  const inner = toText(req.query.innerBoxId);
+  if (!outer || !inner) return res.status(400).json({ error: "outerBoxId and innerBoxId are required." });
+
+  try {
+    const line = await findAsnLine(pool, outer, inner);
+    const outerAsns = line ? [line.asn_number] : await asnNumbersForOuterbox(pool, outer);
+    res.json({ line: asnLineInfo(line), outerAsns });
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: upload ASNs
+// POST /api/admin/asns?replace=1
+// body: text/csv (asn_number, po_number, supplier, outerbox_id, innerbox_id, sku, expected_qty)
+//   or JSON { asnNumber, poNumber?, supplier?, lines: [{ outerBoxId, innerBoxId, sku, expectedQty }] }
+// ?asnNumber / ?poNumber / ?supplier fill in columns missing from the file
+// ----------------------------------------------------
+app.post("/api/admin/asns", requireRole("supervisor"), async (req, res) => {
+  const replace = ["1", "true"].includes(toText(req.query.replace).toLowerCase());
+
+  const parsed = readAsnRows(req);
+  if (parsed.error) return res.status(400).json({ error: parsed.error });
+  if (!parsed.rows.length) return res.status(400).json({ error: "No ASN lines found." });
+
+  // validate + group by ASN number
+  const asns = new Map();
+  const seenBoxes = new Set();
+  const errors = [];
+
+  parsed.rows.forEach((row, idx) => {
+    const at = `line ${idx + 1}`;
+    const asnNumber = toText(row.asnNumber);
+    const sku = toUpperText(row.sku);
+    const qty = toInt(row.expectedQty, 0);
+    const boxKey = `${row.outerBoxId}\u0000${row.innerBoxId}`;
+
+    if (!asnNumber) return errors.push(`${at}: asnNumber is required.`);
+    if (!row.outerBoxId || !row.innerBoxId) return errors.push(`${at}: outerBoxId and innerBoxId are required.`);
+    if (!sku) return errors.push(`${at}: sku is required.`);
+    if (qty < 1) return errors.push(`${at}: expectedQty must be >= 1.`);
+    if (seenBoxes.has(boxKey)) return errors.push(`${at}: ${row.outerBoxId}/${row.innerBoxId} is listed twice.`);
+    seenBoxes.add(boxKey);
+
+    if (!asns.has(asnNumber)) {
+      asns.set(asnNumber, { asnNumber, poNumber: toText(row.poNumber), supplier: toText(row.supplier), lines: [] });
+    }
+    asns.get(asnNumber).lines.push({ outerBoxId: row.outerBoxId, innerBoxId: row.innerBoxId, sku, expectedQty: qty });
+  });
+
+  if (errors.length) return res.status(400).json({ error: errors.slice(0, 20).join(" "), errors });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // every SKU must be in the master list
+    const skus = [...new Set([...asns.values()].flatMap((a) => a.lines.map((l) => l.sku)))];
+    const known = await client.query(`SELECT sku FROM skus WHERE sku = ANY($1::text[]) AND active = true`, [skus]);
+    const knownSet = new Set(known.rows.map((r) => r.sku));
+    const unknown = skus.filter((x) => !knownSet.has(x));
+    if (unknown.length) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: `Invalid SKU(s) not in the SKU master: ${unknown.join(", ")}` });
+    }
+
+    const saved = [];
+    for (const a of asns.values()) {
+      const existing = await client.query(`SELECT id FROM asns WHERE asn_number = $1 FOR UPDATE`, [a.asnNumber]);
+
+      let asnId;
+      if (existing.rows.length) {
+        if (!replace) {
+          await client.query("ROLLBACK");
+          return res.status(409).json({ error: `ASN ${a.asnNumber} already exists. Upload with replace to overwrite it.` });
+        }
+        asnId = existing.rows[0].id;
+        await client.query(`UPDATE asns SET po_number = $2, supplier = $3 WHERE id = $1`, [asnId, a.poNumber, a.supplier]);
+        await client.query(`DELETE FROM asn_lines WHERE asn_id = $1`, [asnId]);
+      } else {
+        const created = await client.query(
+          `INSERT INTO asns (asn_number, po_number, supplier, created_by) VALUES ($1, $2, $3, $4) RETURNING id`,
+          [a.asnNumber, a.poNumber, a.supplier, req.user.username]
+        );
+        asnId = created.rows[0].id;
+      }
+
+      for (const l of a.lines) {
+        await client.query(
+          `
+          INSERT INTO asn_lines (asn_id, outerbox_id, innerbox_id, sku, expected_qty)
+          VALUES ($1, $2, $3, $4, $5)
+          `,
+          [asnId, l.outerBoxId, l.innerBoxId, l.sku, l.expectedQty]
+        );
+      }
+
+      saved.push({ id: Number(asnId), asnNumber: a.asnNumber, lines: a.lines.length });
+    }
+
+    await client.query("COMMIT");
+    res.status(201).json({ ok: true, asns: saved });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    if (e.code === "23505") {
+      return res.status(409).json({ error: "An inner box in this upload is already listed on another ASN.", details: e.detail });
+    }
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: list ASNs with received totals
+// GET /api/admin/asns
+// ----------------------------------------------------
+app.get("/api/admin/asns", requireRole("supervisor"), async (req, res) => {
+  try {
+    const r = await pool.query(
+      `
+      SELECT
+        a.id,
+        a.asn_number AS "asnNumber",
+        a.po_number AS "poNumber",
+        a.supplier,
+        a.created_by AS "createdBy",
+        a.created_at AS "createdAt",
+        COUNT(l.id)::int AS "innerBoxes",
+        COUNT(DISTINCT l.outerbox_id)::int AS "outerBoxes",
+        COALESCE(SUM(l.expected_qty), 0)::int AS "expectedQty",
+        COALESCE(SUM(rcv.qty), 0)::int AS "receivedQty"
+      FROM asns a
+      LEFT JOIN asn_lines l ON l.asn_id = a.id
+      LEFT JOIN LATERAL (
+        SELECT COUNT(*)::int AS qty
+        FROM inbound_items i
+        WHERE i.outerbox_id = l.outerbox_id AND i.innerbox_id = l.innerbox_id
+      ) rcv ON true
+      GROUP BY a.id
+      ORDER BY a.created_at DESC
+      `
+    );
+    res.json(r.rows);
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: reconciliation for one ASN
+// GET /api/admin/asns/:id/reconciliation
+// line status: MATCHED | SHORT | OVER | NOT_RECEIVED | WRONG_SKU
+// unexpected: inner boxes scanned into the ASN's outer boxes but not listed on it
+// ----------------------------------------------------
+app.get("/api/admin/asns/:id/reconciliation", requireRole("supervisor"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(400).json({ error: "Invalid ASN id" });
+
+  try {
+    const a = await pool.query(
+      `
+      SELECT id, asn_number AS "asnNumber", po_number AS "poNumber", supplier, created_at AS "createdAt"
+      FROM asns WHERE id = $1
+      `,
+      [id]
+    );
+    if (!a.rows.length) return res.status(404).json({ error: "ASN not found" });
+
+    const lines = await pool.query(
+      `
+      SELECT
+        l.outerbox_id AS "outerBoxId",
+        l.innerbox_id AS "innerBoxId",
+        l.sku,
+        l.expected_qty AS "expectedQty",
+        s.id AS "sessionId",
+        s.status AS "sessionStatus",
+        COUNT(i.id) FILTER (WHERE i.sku = l.sku)::int AS "receivedQty",
+        COUNT(i.id) FILTER (WHERE i.sku <> l.sku)::int AS "wrongSkuQty"
+      FROM asn_lines l
+      LEFT JOIN inbound_sessions s ON s.outerbox_id = l.outerbox_id AND s.innerbox_id = l.innerbox_id
+      LEFT JOIN inbound_items i ON i.outerbox_id = l.outerbox_id AND i.innerbox_id = l.innerbox_id
+      WHERE l.asn_id = $1
+      GROUP BY l.id, s.id
+      ORDER BY l.outerbox_id, l.innerbox_id
+      `,
+      [id]
+    );
+
+    const unexpected = await pool.query(
+      `
+      SELECT
+        s.id AS "sessionId",
+        s.outerbox_id AS "outerBoxId",
+        s.innerbox_id AS "innerBoxId",
+        s.status AS "sessionStatus",
+        COUNT(i.id)::int AS "receivedQty",
+        COALESCE(array_agg(DISTINCT i.sku) FILTER (WHERE i.sku IS NOT NULL), '{}') AS skus
+      FROM inbound_sessions s
+      LEFT JOIN inbound_items i ON i.session_id = s.id
+      WHERE s.outerbox_id IN (SELECT outerbox_id FROM asn_lines WHERE asn_id = $1)
+        AND NOT EXISTS (
+          SELECT 1 FROM asn_lines l
+          WHERE l.outerbox_id = s.outerbox_id AND l.innerbox_id = s.innerbox_id
+        )
+      GROUP BY s.id
+      ORDER BY s.outerbox_id, s.innerbox_id
+      `,
+      [id]
+    );
+
+    const rows = lines.rows.map((l) => {
+      let status = "MATCHED";
+      if (l.wrongSkuQty > 0) status = "WRONG_SKU";
+      else if (!l.sessionId || l.receivedQty === 0) status = "NOT_RECEIVED";
+      else if (l.receivedQty < l.expectedQty) status = "SHORT";
+      else if (l.receivedQty > l.expectedQty) status = "OVER";
+      return { ...l, variance: l.receivedQty - l.expectedQty, status };
+    });
+
+    const count = (st) => rows.filter((r) => r.status === st).length;
+    res.json({
+      asn: a.rows[0],
+      lines: rows,
+      unexpected: unexpected.rows,
+      totals: {
+        expectedQty: rows.reduce((n, r) => n + r.expectedQty, 0),
+        receivedQty: rows.reduce((n, r) => n + r.receivedQty, 0),
+        matched: count("MATCHED"),
+        short: count("SHORT"),
+        over: count("OVER"),
+        notReceived: count("NOT_RECEIVED"),
+        wrongSku: count("WRONG_SKU"),
+        unexpected: unexpected.rows.length,
+      },
+    });
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ADMIN: remove an ASN (scans are kept)
+// DELETE /api/admin/asns/:id
+app.delete("/api/admin/asns/:id", requireRole("admin"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(400).json({ error: "Invalid ASN id" });
+
+  const r = await pool.query(`DELETE FROM asns WHERE id = $1`, [id]);
+  if (!r.rowCount) return res.status(404).json({ error: "ASN not found" });
+  res.json({ ok: true });
+});
+
+// ====================================================
+// ✅ LIVE SUPERVISOR DASHBOARD (server-sent events)
+// Every scan / heartbeat / claim / complete / abandon calls notifyDashboard();
+// connected dashboards get a fresh snapshot (coalesced, at most one per DASHBOARD_DEBOUNCE_MS).
+// The ?token= a stream was opened with is re-checked every DASHBOARD_TICK_MS; streams whose
+// token was revoked, expired or lost the supervisor role get an "expired" event and are closed.
+// ====================================================
+const DASHBOARD_DEBOUNCE_MS = 500;
+const DASHBOARD_TICK_MS = 15 * 1000; // periodic push so lease ages keep moving without activity
+const DASHBOARD_THROUGHPUT_HOURS = 8;
+
+const dashboardClients = new Map(); // express res -> token_hash it was opened with
+let dashboardTimer = null;
+
+async function dashboardSnapshot() {
+  const active = await pool.query(
+    `
+    SELECT
+      s.id,
+      s.outerbox_id AS "outerBoxId",
+      s.innerbox_id AS "innerBoxId",
+      s.locked_by AS "lockedBy",
+      s.locked_sku AS "lockedSku",
+      s.mode,
+      s.expected_qty AS "expectedQty",
+      s.locked_at AS "lockedAt",
+      s.last_seen AS "lastSeen",
+      (SELECT COUNT(*)::int FROM inbound_items i WHERE i.session_id = s.id) AS "scannedQty"
+    FROM inbound_sessions s
+    WHERE s.status = 'IN_PROGRESS'
+    ORDER BY s.last_seen ASC
+    `
+  );
+
+  const throughput = await pool.query(
+    `
+    SELECT
+      packed_by AS "operator",
+      date_trunc('hour', created_at) AS "hour",
+      COUNT(*)::int AS "items"
+    FROM inbound_items
+    WHERE created_at >= date_trunc('hour', now()) - ($1::int - 1) * interval '1 hour'
+    GROUP BY 1, 2
+    ORDER BY 2 ASC, 1 ASC
+    `,
+    [DASHBOARD_THROUGHPUT_HOURS]
+  );
+
+  // hour buckets are truncated by the DB (its time zone), so the client uses these as column keys
+  const buckets = await pool.query(
+    `
+    SELECT generate_series(
+      date_trunc('hour', now()) - ($1::int - 1) * interval '1 hour',
+      date_trunc('hour', now()),
+      interval '1 hour'
+    ) AS "hour"
+    `,
+    [DASHBOARD_THROUGHPUT_HOURS]
+  );
+
+  const today = await pool.query(
+    `
+    SELECT
+      (SELECT COUNT(*)::int FROM inbound_items WHERE created_at >= date_trunc('day', now())) AS "itemsToday",
+      (SELECT COUNT(*)::int FROM inbound_sessions
+        WHERE status = 'CONFIRMED' AND confirmed_at >= date_trunc('day', now())) AS "confirmedToday"
+    `
+  );
+
+  const now = Date.now();
+  return {
+    serverTime: new Date(now).toISOString(),
+    leaseMs: LEASE_MS,
+    active: active.rows.map((r) => {
+      const leaseAgeMs = now - new Date(r.lastSeen).getTime();
+      return {
+        ...r,
+        leaseAgeMs,
+        leaseState: leaseAgeMs > LEASE_MS ? "EXPIRED" : leaseAgeMs > LEASE_MS / 2 ? "NEARING" : "OK",
+      };
+    }),
+    throughput: throughput.rows,
+    throughputHours: buckets.rows.map((b) => b.hour),
+    ...today.rows[0],
+  };
+}
+
+function sendDashboardEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+async function pushDashboard() {
+  dashboardTimer = null;
+  if (!dashboardClients.size) return;
+
+  try {
+    const snap = await dashboardSnapshot();
+    for (const res of dashboardClients.keys()) sendDashboardEvent(res, "snapshot", snap);
+  } catch (e) {
+    console.error("Dashboard push failed:", e.message);
+  }
+}
+
+// Schedule a push to connected dashboards (cheap no-op when nobody is watching)
+function notifyDashboard() {
+  if (!dashboardClients.size || dashboardTimer) return;
+  dashboardTimer = setTimeout(pushDashboard, DASHBOARD_DEBOUNCE_MS);
+}
+
+setInterval(notifyDashboard, DASHBOARD_TICK_MS).unref();
+
+function closeDashboardStreams(tokenHashes) {
+  for (const [res, tokenHash] of dashboardClients) {
+    if (!tokenHashes.includes(tokenHash)) continue;
+    dashboardClients.delete(res);
+    sendDashboardEvent(res, "expired", { error: "Session expired. Please login again." });
+    res.end();
+  }
+}
+
+async function checkDashboardTokens() {
+  if (!dashboardClients.size) return;
+
+  const hashes = [...new Set(dashboardClients.values())];
+  try {
+    const r = await pool.query(
+      `
+      SELECT t.token_hash
+      FROM auth_tokens t
+      JOIN operators o ON o.id = t.operator_id
+      WHERE t.token_hash = ANY($1::text[])
+        AND t.revoked_at IS NULL
+        AND t.expires_at > now()
+        AND o.active = true
+        AND o.role = ANY($2::text[])
+      `,
+      [hashes, ROLES.filter((role) => ROLE_RANK[role] >= ROLE_RANK.supervisor)]
+    );
+    const valid = new Set(r.rows.map((t) => t.token_hash));
+    closeDashboardStreams(hashes.filter((h) => !valid.has(h)));
+  } catch (e) {
+    console.error("Dashboard token check failed:", e.message);
+  }
+}
+
+setInterval(checkDashboardTokens, DASHBOARD_TICK_MS).unref();
+
+// ----------------------------------------------------
+// GET /api/admin/dashboard          -> one snapshot (JSON)
+// GET /api/admin/dashboard/stream   -> text/event-stream of "snapshot" events (?token=)
+// ----------------------------------------------------
+app.get("/api/admin/dashboard", requireRole("supervisor"), async (req, res) => {
+  try {
+    res.json(await dashboardSnapshot());
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+app.get("/api/admin/dashboard/stream", requireRole("supervisor"), async (req, res) => {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
+
+  dashboardClients.set(res, req.tokenHash);
+  req.on("close", () => dashboardClients.delete(res));
+
+  try {
+    sendDashboardEvent(res, "snapshot", await dashboardSnapshot());
+  } catch (e) {
+    sendDashboardEvent(res, "failure", { error: "Server error", details: e.message });
+  }
+});
+
+// ====================================================
+// ✅ SCAN BATCHES
+// Items are scanned in batches; a batch is OPEN until the operator confirms it.
+// Resume restores the open batch instead of treating every saved item as confirmed.
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS inbound_batches (
+//   id BIGSERIAL PRIMARY KEY,
+//   session_id BIGINT NOT NULL REFERENCES inbound_sessions(id) ON DELETE CASCADE,
+//   batch_no INT NOT NULL,
+//   status TEXT NOT NULL DEFAULT 'OPEN',     -- OPEN | CONFIRMED
+//   created_by TEXT NOT NULL,
+//   created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+//   confirmed_by TEXT,
+//   confirmed_at TIMESTAMPTZ,
+//   UNIQUE (session_id, batch_no)
+// );
+//
+// ALTER TABLE inbound_items ADD COLUMN IF NOT EXISTS batch_id BIGINT REFERENCES inbound_batches(id) ON DELETE SET NULL;
+// CREATE INDEX IF NOT EXISTS inbound_items_batch_idx ON inbound_items (batch_id);
+// ====================================================
+
+async function findBatch(db, sessionId, batchNo) {
+  const r = await db.query(
+    `SELECT * FROM inbound_batches WHERE session_id = $1 AND batch_no = $2`,
+    [sessionId, batchNo]
+  );
+  return r.rows[0] ?? null;
+}
+
+// Batch that new scans go into: the lowest OPEN one, else the next number
+async function currentBatchNo(db, sessionId) {
+  const r = await db.query(
+    `
+    SELECT
+      MIN(batch_no) FILTER (WHERE status = 'OPEN') AS open_no,
+      COALESCE(MAX(batch_no), 0) + 1 AS next_no
+    FROM inbound_batches
+    WHERE session_id = $1
+    `,
+    [sessionId]
+  );
+  return Number(r.rows[0].open_no ?? r.rows[0].next_no);
+}
+
+async function openBatch(db, sessionId, batchNo, createdBy) {
+  await db.query(
+    `
+    INSERT INTO inbound_batches (session_id, batch_no, created_by)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (session_id, batch_no) DO NOTHING
+    `,
+    [sessionId, batchNo, createdBy]
+  );
+  return findBatch(db, sessionId, batchNo);
+}
+
+// ----------------------------------------------------
+// Confirm a scan batch (its items become final for resume)
+// POST /api/inbounds/sessions/:id/batches/:batchNo/confirm
+// ----------------------------------------------------
+app.post("/api/inbounds/sessions/:id/batches/:batchNo/confirm", requireRole("operator"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const batchNo = toInt(req.params.batchNo, 0);
+  const packedBy = req.user.username;
+
+  if (!id || !batchNo) return res.status(400).json({ error: "Invalid session id or batch number." });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const s = await client.query(`SELECT * FROM inbound_sessions WHERE id = $1 FOR UPDATE`, [id]);
+    if (!s.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found." });
+    }
+
+    const session = s.rows[0];
+    if (session.status !== "IN_PROGRESS") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Session is not IN_PROGRESS." });
+    }
+    if (toText(session.locked_by) !== packedBy) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "Locked by another user." });
+    }
+
+    const batch = await findBatch(client, id, batchNo);
+    if (!batch) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: `Batch ${batchNo} not found.` });
+    }
+    if (batch.status !== "OPEN") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `Batch ${batchNo} is already confirmed.` });
+    }
+
+    const items = await client.query(
+      `SELECT serial_number FROM inbound_items WHERE batch_id = $1 ORDER BY id ASC`,
+      [batch.id]
+    );
+    if (!items.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `Batch ${batchNo} has no items.` });
+    }
+
+    await client.query(
+      `
+      UPDATE inbound_batches
+      SET status = 'CONFIRMED', confirmed_by = $2, confirmed_at = now()
+      WHERE id = $1
+      `,
+      [batch.id, packedBy]
+    );
+    await client.query(`UPDATE inbound_sessions SET last_seen = now() WHERE id = $1`, [id]);
+
+    await writeAudit(client, req.user, "BATCH_CONFIRM", {
+      session,
+      serials: items.rows.map((r) => r.serial_number),
+      after: { batchNo, items: items.rows.length },
+    });
+
+    await client.query("COMMIT");
+    res.json({
+      ok: true,
+      batch: { batchNo, status: "CONFIRMED", items: items.rows.length },
+      nextBatchNo: await currentBatchNo(pool, id),
+    });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ====================================================
+// ✅ OUTER BOX SESSIONS (shared across devices)
+// An OuterBox is OPEN from its first claim until someone closes it.
+// Totals are always aggregated from inbound_sessions, never stored.
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS outer_box_sessions (
+//   id BIGSERIAL PRIMARY KEY,
+//   outerbox_id TEXT NOT NULL UNIQUE,
+//   status TEXT NOT NULL DEFAULT 'OPEN',     -- OPEN | CLOSED
+//   opened_by TEXT NOT NULL,
+//   opened_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+//   closed_by TEXT,
+//   closed_at TIMESTAMPTZ
+// );
+// ====================================================
+
+// Open (or fetch) the OuterBox row. FOR SHARE lets claims run side by side but blocks a concurrent close.
+async function openOuterbox(db, outerBoxId, actor) {
+  const created = await db.query(
+    `
+    INSERT INTO outer_box_sessions (outerbox_id, opened_by)
+    VALUES ($1, $2)
+    ON CONFLICT (outerbox_id) DO NOTHING
+    RETURNING *
+    `,
+    [outerBoxId, actor.username]
+  );
+
+  if (created.rows.length) {
+    await writeAudit(db, actor, "OUTERBOX_OPEN", {
+      session: { outerbox_id: outerBoxId },
+      after: { outerBoxId, status: "OPEN" },
+    });
+  }
+
+  const r = await db.query(`SELECT * FROM outer_box_sessions WHERE outerbox_id = $1 FOR SHARE`, [outerBoxId]);
+  return r.rows[0];
+}
+
+// OuterBox header + confirmed InnerBoxes (with items) + InnerBoxes still in progress
+async function loadOuterboxSummary(db, outerBoxId) {
+  const o = await db.query(
+    `
+    SELECT
+      outerbox_id AS "outerBoxId",
+      status,
+      opened_by AS "openedBy",
+      opened_at AS "openedAt",
+      closed_by AS "closedBy",
+      closed_at AS "closedAt"
+    FROM outer_box_sessions
+    WHERE outerbox_id = $1
+    `,
+    [outerBoxId]
+  );
+  if (!o.rows.length) return null;
+
+  const confirmed = await db.query(
+    `
+    SELECT
+      s.id AS "sessionId",
+      s.innerbox_id AS "innerBoxId",
+      s.expected_qty AS "expectedQty",
+      s.locked_by AS "packedBy",
+      s.confirmed_at AS "verifiedAt",
+      COALESCE(
+        json_agg(json_build_object('sku', i.sku, 'serial', i.serial_number) ORDER BY i.id)
+          FILTER (WHERE i.id IS NOT NULL),
+        '[]'
+      ) AS items
+    FROM inbound_sessions s
+    LEFT JOIN inbound_items i ON i.session_id = s.id
+    WHERE s.outerbox_id = $1 AND s.status = 'CONFIRMED'
+    GROUP BY s.id
+    ORDER BY s.confirmed_at ASC, s.id ASC
+    `,
+    [outerBoxId]
+  );
+
+  const inProgress = await db.query(
+    `
+    SELECT
+      s.id AS "sessionId",
+      s.innerbox_id AS "innerBoxId",
+      s.expected_qty AS "expectedQty",
+      s.locked_by AS "lockedBy",
+      s.last_seen AS "lastSeen",
+      (SELECT COUNT(*)::int FROM inbound_items i WHERE i.session_id = s.id) AS "scannedQty"
+    FROM inbound_sessions s
+    WHERE s.outerbox_id = $1 AND s.status = 'IN_PROGRESS'
+    ORDER BY s.locked_at ASC, s.id ASC
+    `,
+    [outerBoxId]
+  );
+
+  return {
+    outerBox: o.rows[0],
+    innerBoxes: confirmed.rows,
+    inProgress: inProgress.rows,
+    totals: {
+      innerBoxes: confirmed.rows.length,
+      items: confirmed.rows.reduce((n, b) => n + b.items.length, 0),
+      inProgress: inProgress.rows.length,
+    },
+  };
+}
+
+// ----------------------------------------------------
+// Open (or resume) an OuterBox and return its shared state
+// POST /api/inbounds/outerboxes/open
+// body: { outerBoxId }
+// ----------------------------------------------------
+app.post("/api/inbounds/outerboxes/open", requireRole("operator"), async (req, res) => {
+  const outer = toText(req.body?.outerBoxId);
+  if (!outer) return res.status(400).json({ error: "outerBoxId is required." });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const outerBox = await openOuterbox(client, outer, req.user);
+    if (outerBox.status !== "OPEN") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `OuterBox ${outer} is CLOSED.` });
+    }
+
+    const summary = await loadOuterboxSummary(client, outer);
+
+    await client.query("COMMIT");
+    res.json(summary);
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ----------------------------------------------------
+// OuterBox state (totals for the scan footer, resume after reload)
+// GET /api/inbounds/outerboxes/:outerBoxId
+// ----------------------------------------------------
+app.get("/api/inbounds/outerboxes/:outerBoxId", requireRole("operator"), async (req, res) => {
+  try {
+    const summary = await loadOuterboxSummary(pool, toText(req.params.outerBoxId));
+    if (!summary) return res.status(404).json({ error: "OuterBox not found." });
+    res.json(summary);
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ----------------------------------------------------
+// Close an OuterBox (refused while any InnerBox is still IN_PROGRESS)
+// POST /api/inbounds/outerboxes/:outerBoxId/close
+// ----------------------------------------------------
+app.post("/api/inbounds/outerboxes/:outerBoxId/close", requireRole("operator"), async (req, res) => {
+  const outer = toText(req.params.outerBoxId);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const o = await client.query(`SELECT * FROM outer_box_sessions WHERE outerbox_id = $1 FOR UPDATE`, [outer]);
+    if (!o.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "OuterBox not found." });
+    }
+    if (o.rows[0].status !== "OPEN") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `OuterBox ${outer} is already CLOSED.` });
+    }
+
+    const open = await client.query(
+      `
+      SELECT innerbox_id, locked_by
+      FROM inbound_sessions
+      WHERE outerbox_id = $1 AND status = 'IN_PROGRESS'
+      ORDER BY innerbox_id ASC
+      `,
+      [outer]
+    );
+    if (open.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({
+        error: `Cannot close: InnerBox ${open.rows.map((r) => `${r.innerbox_id} (${r.locked_by})`).join(", ")} still IN_PROGRESS.`,
+        inProgress: open.rows.map((r) => ({ innerBoxId: r.innerbox_id, lockedBy: r.locked_by })),
+      });
+    }
+
+    await client.query(
+      `UPDATE outer_box_sessions SET status = 'CLOSED', closed_by = $2, closed_at = now() WHERE outerbox_id = $1`,
+      [outer, req.user.username]
+    );
+
+    const summary = await loadOuterboxSummary(client, outer);
+    const manifests = await manifestsForOuterbox(client, outer);
+
+    await writeAudit(client, req.user, "OUTERBOX_CLOSE", {
+      session: { outerbox_id: outer },
+      before: { status: "OPEN" },
+      after: { status: "CLOSED", totals: summary.totals, manifests },
+    });
+
+    await client.query("COMMIT");
+    res.json({ ...summary, manifests });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ====================================================
+// ✅ STALE SESSION SWEEPER + SUPERVISOR LOCK TAKEOVER
+// IN_PROGRESS sessions without a heartbeat/scan for SESSION_STALE_MS are moved to STALE
+// (items are kept; the box can be claimed again like an ABANDONED one).
+// Requires:
+//
+// ALTER TABLE inbound_sessions ADD COLUMN IF NOT EXISTS stale_at TIMESTAMPTZ;
+// ALTER TABLE inbound_sessions ADD COLUMN IF NOT EXISTS stale_reason TEXT;
+// -- status: IN_PROGRESS | CONFIRMED | ABANDONED | STALE
+// ====================================================
+const STALE_AFTER_MS = Math.max(LEASE_MS, Number(process.env.SESSION_STALE_MS || 15 * 60 * 1000));
+const STALE_SWEEP_MS = Number(process.env.STALE_SWEEP_MS || 60 * 1000);
+
+let sweeping = false;
+
+async function sweepStaleSessions() {
+  if (sweeping) return;
+  sweeping = true;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const r = await client.query(
+      `
+      UPDATE inbound_sessions
+      SET status = 'STALE',
+          stale_at = now(),
+          stale_reason = 'No heartbeat or scan from ' || locked_by || ' since ' || to_char(last_seen, 'YYYY-MM-DD HH24:MI:SS TZ')
+      WHERE status = 'IN_PROGRESS'
+        AND last_seen < now() - ($1::int * interval '1 millisecond')
+      RETURNING *
+      `,
+      [STALE_AFTER_MS]
+    );
+
+    for (const row of r.rows) {
+      await writeAudit(client, SYSTEM_ACTOR, "SESSION_STALE", {
+        session: row,
+        before: { status: "IN_PROGRESS", lockedBy: row.locked_by, lastSeen: row.last_seen },
+        after: { status: "STALE", reason: row.stale_reason },
+      });
+    }
+
+    await client.query("COMMIT");
+    if (r.rows.length) notifyDashboard();
+  } catch (e) {
+    await client.query("ROLLBACK");
+    console.error("Stale session sweep failed:", e.message);
+  } finally {
+    client.release();
+    sweeping = false;
+  }
+}
+
+setInterval(sweepStaleSessions, STALE_SWEEP_MS).unref();
+
+// ----------------------------------------------------
+// ADMIN: hand an InnerBox lock to another operator (scanned items stay)
+// POST /api/admin/inbounds/sessions/:id/takeover
+// body: { toOperator, reason? }
+// ----------------------------------------------------
+app.post("/api/admin/inbounds/sessions/:id/takeover", requireRole("supervisor"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const toOperator = toText(req.body?.toOperator);
+  const reason = toText(req.body?.reason);
+
+  if (!id) return res.status(400).json({ error: "Invalid session id" });
+  if (!toOperator) return res.status(400).json({ error: "toOperator is required" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const op = await client.query(
+      `SELECT username FROM operators WHERE lower(username) = lower($1) AND active = true`,
+      [toOperator]
+    );
+    if (!op.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: `Operator "${toOperator}" not found or inactive` });
+    }
+    const target = op.rows[0].username;
+
+    const s = await client.query(`SELECT * FROM inbound_sessions WHERE id = $1 FOR UPDATE`, [id]);
+    if (!s.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const session = s.rows[0];
+    if (session.status === "CONFIRMED") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "InnerBox is already CONFIRMED" });
+    }
+    if (session.locked_by === target && session.status === "IN_PROGRESS") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `InnerBox is already locked by ${target}` });
+    }
+
+    // fresh lease so the new operator can resume before anyone else claims it
+    const r = await client.query(
+      `
+      UPDATE inbound_sessions
+      SET locked_by = $2,
+          status = 'IN_PROGRESS',
+          last_seen = now(),
+          stale_at = NULL,
+          stale_reason = NULL
+      WHERE id = $1
+      RETURNING
+        id,
+        outerbox_id AS "outerBoxId",
+        innerbox_id AS "innerBoxId",
+        expected_qty AS "expectedQty",
+        status,
+        locked_by AS "lockedBy",
+        last_seen AS "lastSeen"
+      `,
+      [id, target]
+    );
+
+    await writeAudit(client, req.user, "SESSION_TAKEOVER", {
+      session,
+      before: sessionSnapshot(session),
+      after: { ...r.rows[0], transferredBy: req.user.username, reason: reason || null },
+    });
+
+    await client.query("COMMIT");
+    notifyDashboard();
+    res.json({ ok: true, session: r.rows[0] });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ====================================================
+// ✅ SERIAL TRACEABILITY
+// Full chain for one or many serials: box, SKU, operator, batch, session status
+// and every audit entry that touched the serial (edits, moves, deletions).
+// ====================================================
+const TRACE_MAX_SERIALS = 500;
+
+// Accepts an array or pasted text (newline / comma / whitespace separated)
+function readSerialList(raw) {
+  const parts = Array.isArray(raw) ? raw : String(raw ?? "").split(/[\s,;]+/);
+  return [...new Set(parts.map(toUpperText).filter(Boolean))];
+}
+
+// ----------------------------------------------------
+// POST /api/admin/trace
+// body: { serialNumbers: string[] | string }
+// status per serial: RECEIVED | REMOVED (history only, item gone) | NOT_RECEIVED
+// ----------------------------------------------------
+app.post("/api/admin/trace", requireRole("supervisor"), async (req, res) => {
+  const serials = readSerialList(req.body?.serialNumbers);
+  if (!serials.length) return res.status(400).json({ error: "serialNumbers is required." });
+  if (serials.length > TRACE_MAX_SERIALS) {
+    return res.status(400).json({ error: `At most ${TRACE_MAX_SERIALS} serials per lookup.` });
+  }
+
+  try {
+    const items = await pool.query(
+      `
+      SELECT
+        i.id AS "itemId",
+        i.serial_number AS "serialNumber",
+        i.sku,
+        i.packed_by AS "packedBy",
+        i.created_at AS "scannedAt",
+        i.outerbox_id AS "outerBoxId",
+        i.innerbox_id AS "innerBoxId",
+        i.session_id AS "sessionId",
+        s.status AS "sessionStatus",
+        s.confirmed_at AS "confirmedAt",
+        b.batch_no AS "batchNo",
+        b.status AS "batchStatus",
+        b.confirmed_at AS "batchConfirmedAt"
+      FROM inbound_items i
+      LEFT JOIN inbound_sessions s ON s.id = i.session_id
+      LEFT JOIN inbound_batches b ON b.id = i.batch_id
+      WHERE i.serial_number = ANY($1::text[])
+      `,
+      [serials]
+    );
+
+    const history = await pool.query(
+      `
+      SELECT
+        id,
+        created_at AS "createdAt",
+        actor,
+        actor_role AS "actorRole",
+        action,
+        session_id AS "sessionId",
+        outerbox_id AS "outerBoxId",
+        innerbox_id AS "innerBoxId",
+        serial_numbers AS "serialNumbers",
+        before_data AS "before",
+        after_data AS "after"
+      FROM audit_log
+      WHERE serial_numbers && $1::text[]
+      ORDER BY id ASC
+      `,
+      [serials]
+    );
+
+    const itemBySerial = new Map(items.rows.map((r) => [r.serialNumber, r]));
+
+    const results = serials.map((serialNumber) => {
+      const item = itemBySerial.get(serialNumber) ?? null;
+      const entries = history.rows
+        .filter((h) => h.serialNumbers.includes(serialNumber))
+        .map(({ serialNumbers, ...h }) => h);
+      const last = entries[entries.length - 1];
+
+      return {
+        serialNumber,
+        status: item ? "RECEIVED" : entries.length ? "REMOVED" : "NOT_RECEIVED",
+        item,
+        lastKnown: !item && last
+          ? { outerBoxId: last.outerBoxId, innerBoxId: last.innerBoxId, action: last.action, at: last.createdAt, actor: last.actor }
+          : null,
+        history: entries,
+      };
+    });
+
+    res.json({
+      results,
+      counts: {
+        received: results.filter((r) => r.status === "RECEIVED").length,
+        removed: results.filter((r) => r.status === "REMOVED").length,
+        notReceived: results.filter((r) => r.status === "NOT_RECEIVED").length,
+      },
+    });
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ====================================================
+// ✅ REOPEN CONFIRMED INNERBOXES (supervisor, with reason code)
+// The session goes back to IN_PROGRESS locked to the named operator
+// and must be confirmed again through /sessions/:id/complete.
+// A CLOSED OuterBox is reopened with it and has to be closed again afterwards.
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS session_reopens (
+//   id BIGSERIAL PRIMARY KEY,
+//   session_id BIGINT NOT NULL REFERENCES inbound_sessions(id) ON DELETE CASCADE,
+//   reason_code TEXT NOT NULL,
+//   note TEXT,
+//   reopened_by TEXT NOT NULL,
+//   assigned_to TEXT NOT NULL,
+//   reopened_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+//   previous_confirmed_at TIMESTAMPTZ,
+//   reconfirmed_by TEXT,
+//   reconfirmed_at TIMESTAMPTZ
+// );
+// ====================================================
+const REOPEN_REASONS = ["WRONG_QTY", "WRONG_SKU", "MISSING_ITEM", "EXTRA_ITEM", "DAMAGED", "CUSTOMER_REQUEST", "OTHER"];
+
+async function loadSessionReopens(db, sessionId) {
+  const r = await db.query(
+    `
+    SELECT
+      id,
+      reason_code AS "reasonCode",
+      note,
+      reopened_by AS "reopenedBy",
+      assigned_to AS "assignedTo",
+      reopened_at AS "reopenedAt",
+      previous_confirmed_at AS "previousConfirmedAt",
+      reconfirmed_by AS "reconfirmedBy",
+      reconfirmed_at AS "reconfirmedAt"
+    FROM session_reopens
+    WHERE session_id = $1
+    ORDER BY id DESC
+    `,
+    [sessionId]
+  );
+  return r.rows;
+}
+
+// ----------------------------------------------------
+// ADMIN: reopen a CONFIRMED InnerBox for amendment
+// POST /api/admin/inbounds/sessions/:id/reopen
+// body: { reasonCode, note?, assignTo }
+// ----------------------------------------------------
+app.post("/api/admin/inbounds/sessions/:id/reopen", requireRole("supervisor"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const reasonCode = toUpperText(req.body?.reasonCode);
+  const note = toText(req.body?.note);
+  const assignTo = toText(req.body?.assignTo);
+
+  if (!id) return res.status(400).json({ error: "Invalid session id" });
+  if (!REOPEN_REASONS.includes(reasonCode)) {
+    return res.status(400).json({ error: `reasonCode must be one of ${REOPEN_REASONS.join(", ")}` });
+  }
+  if (reasonCode === "OTHER" && !note) return res.status(400).json({ error: "A note is required for reason OTHER" });
+  if (!assignTo) return res.status(400).json({ error: "assignTo is required" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const op = await client.query(
+      `SELECT username FROM operators WHERE lower(username) = lower($1) AND active = true`,
+      [assignTo]
+    );
+    if (!op.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: `Operator "${assignTo}" not found or inactive` });
+    }
+    const target = op.rows[0].username;
+
+    const s = await client.query(`SELECT * FROM inbound_sessions WHERE id = $1 FOR UPDATE`, [id]);
+    if (!s.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const session = s.rows[0];
+    if (session.status !== "CONFIRMED") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Only CONFIRMED InnerBoxes can be reopened" });
+    }
+
+    // an IN_PROGRESS InnerBox cannot sit in a CLOSED OuterBox
+    const outer = await client.query(
+      `SELECT * FROM outer_box_sessions WHERE outerbox_id = $1 AND status = 'CLOSED' FOR UPDATE`,
+      [session.outerbox_id]
+    );
+    if (outer.rows.length) {
+      await client.query(
+        `UPDATE outer_box_sessions SET status = 'OPEN', closed_by = NULL, closed_at = NULL WHERE outerbox_id = $1`,
+        [session.outerbox_id]
+      );
+      await writeAudit(client, req.user, "OUTERBOX_REOPEN", {
+        session: { outerbox_id: session.outerbox_id },
+        before: { status: "CLOSED", closedBy: outer.rows[0].closed_by, closedAt: outer.rows[0].closed_at },
+        after: { status: "OPEN", reopenedFor: session.innerbox_id },
+      });
+    }
+
+    // fresh lease so the assigned operator can resume before anyone else claims it
+    const r = await client.query(
+      `
+      UPDATE inbound_sessions
+      SET status = 'IN_PROGRESS',
+          locked_by = $2,
+          last_seen = now(),
+          confirmed_at = NULL
+      WHERE id = $1
+      RETURNING
+        id,
+        outerbox_id AS "outerBoxId",
+        innerbox_id AS "innerBoxId",
+        expected_qty AS "expectedQty",
+        status,
+        locked_by AS "lockedBy",
+        last_seen AS "lastSeen"
+      `,
+      [id, target]
+    );
+
+    await client.query(
+      `
+      INSERT INTO session_reopens
+        (session_id, reason_code, note, reopened_by, assigned_to, previous_confirmed_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      `,
+      [id, reasonCode, note || null, req.user.username, target, session.confirmed_at]
+    );
+
+    await writeAudit(client, req.user, "SESSION_REOPEN", {
+      session,
+      before: sessionSnapshot(session),
+      after: { ...r.rows[0], confirmedAt: null, reason: note ? `${reasonCode}: ${note}` : reasonCode },
+    });
+
+    await client.query("COMMIT");
+    notifyDashboard();
+    res.json({
+      ok: true,
+      session: r.rows[0],
+      outerBoxReopened: outer.rows.length > 0,
+      reopens: await loadSessionReopens(pool, id),
+    });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ====================================================
+// ✅ RECYCLE BIN (soft delete for sessions + items)
+// Deleted rows are moved here with who/when/why, so every normal query
+// keeps ignoring them; a restore puts the original rows (same ids) back.
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS recycle_bin (
+//   id BIGSERIAL PRIMARY KEY,
+//   kind TEXT NOT NULL,                      -- SESSION | ITEM
+//   session_id BIGINT,                       -- no FK: the session may be in the bin too
+//   outerbox_id TEXT,
+//   innerbox_id TEXT,
+//   serial_numbers TEXT[] NOT NULL DEFAULT '{}',
+//   payload JSONB NOT NULL,                  -- SESSION: { session, lines, batches, reopens, items, exceptionIds, mergedInto? } / ITEM: { item }
+//   deleted_by TEXT NOT NULL,
+//   deleted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+//   reason TEXT,
+//   restored_by TEXT,
+//   restored_at TIMESTAMPTZ
+// );
+//
+// CREATE INDEX IF NOT EXISTS recycle_bin_open_idx ON recycle_bin (deleted_at DESC) WHERE restored_at IS NULL;
+// ====================================================
+async function insertBinEntry(db, kind, ref, serials, payload, actor, reason) {
+  const r = await db.query(
+    `
+    INSERT INTO recycle_bin
+      (kind, session_id, outerbox_id, innerbox_id, serial_numbers, payload, deleted_by, reason)
+    VALUES ($1, $2, $3, $4, $5::text[], $6::jsonb, $7, $8)
+    RETURNING id
+    `,
+    [
+      kind,
+      ref.id ? Number(ref.id) : null,
+      ref.outerbox_id ?? null,
+      ref.innerbox_id ?? null,
+      serials,
+      JSON.stringify(payload),
+      actor?.username || SYSTEM_ACTOR.username,
+      reason || null,
+    ]
+  );
+  return Number(r.rows[0].id);
+}
+
+// Move a session with its items, lines, batches and reopen history to the bin.
+// Its exceptions stay in quarantine (session_id SET NULL); their ids are kept to re-link on restore.
+// mergedInto marks a box emptied by a merge: its expected qty lives on in the target, so it cannot be restored.
+async function binSession(db, session, actor, reason, mergedInto = null) {
+  const id = session.id;
+  const lines = await db.query(`SELECT * FROM inbound_session_lines WHERE session_id = $1`, [id]);
+  const batches = await db.query(`SELECT * FROM inbound_batches WHERE session_id = $1`, [id]);
+  const reopens = await db.query(`SELECT * FROM session_reopens WHERE session_id = $1`, [id]);
+  const exceptions = await db.query(`SELECT id FROM inbound_exceptions WHERE session_id = $1`, [id]);
+
+  const items = await deleteSessionItems(db, id);
+  await db.query(`DELETE FROM inbound_sessions WHERE id = $1`, [id]); // lines/batches/reopens cascade
+
+  const binId = await insertBinEntry(
+    db,
+    "SESSION",
+    session,
+    items.map((r) => r.serial_number),
+    {
+      session,
+      lines: lines.rows,
+      batches: batches.rows,
+      reopens: reopens.rows,
+      items,
+      exceptionIds: exceptions.rows.map((r) => Number(r.id)),
+      ...(mergedInto ? { mergedInto } : {}),
+    },
+    actor,
+    reason
+  );
+  return { binId, items };
+}
+
+// An already deleted item row goes to the bin on its own
+async function binItem(db, row, actor, reason) {
+  return insertBinEntry(db, "ITEM", itemSessionRef(row), [row.serial_number], { item: row }, actor, reason);
+}
+
+// ----------------------------------------------------
+// ADMIN: recycle bin
+// GET /api/admin/recycle-bin?kind=&q=&includeRestored=1
+// ----------------------------------------------------
+app.get("/api/admin/recycle-bin", requireRole("supervisor"), async (req, res) => {
+  const kind = toUpperText(req.query.kind);
+  const q = toText(req.query.q);
+  const includeRestored = req.query.includeRestored === "1" || req.query.includeRestored === "true";
+
+  const where = [];
+  const params = [];
+  if (!includeRestored) where.push(`restored_at IS NULL`);
+  if (kind) {
+    params.push(kind);
+    where.push(`kind = $${params.length}`);
+  }
+  if (q) {
+    params.push(q);
+    where.push(
+      `(outerbox_id = $${params.length} OR innerbox_id = $${params.length} OR upper($${params.length}) = ANY(serial_numbers))`
+    );
+  }
+
+  try {
+    const r = await pool.query(
+      `
+      SELECT
+        id,
+        kind,
+        session_id AS "sessionId",
+        outerbox_id AS "outerBoxId",
+        innerbox_id AS "innerBoxId",
+        serial_numbers AS "serialNumbers",
+        payload->'session'->>'status' AS "sessionStatus",
+        payload ? 'mergedInto' AS "merged",
+        deleted_by AS "deletedBy",
+        deleted_at AS "deletedAt",
+        reason,
+        restored_by AS "restoredBy",
+        restored_at AS "restoredAt"
+      FROM recycle_bin
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY deleted_at DESC, id DESC
+      LIMIT 500
+      `,
+      params
+    );
+    res.json(r.rows);
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: restore a recycle bin entry
+// POST /api/admin/recycle-bin/:id/restore
+// ----------------------------------------------------
+app.post("/api/admin/recycle-bin/:id/restore", requireRole("supervisor"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(400).json({ error: "Invalid recycle bin id" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const b = await client.query(`SELECT * FROM recycle_bin WHERE id = $1 FOR UPDATE`, [id]);
+    if (!b.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Recycle bin entry not found" });
+    }
+
+    const entry = b.rows[0];
+    if (entry.restored_at) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `Already restored by ${entry.restored_by}` });
+    }
+
+    const payload = entry.payload;
+    if (payload.mergedInto) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({
+        error: `InnerBox ${entry.outerbox_id}/${entry.innerbox_id} was merged into ${payload.mergedInto.outerBoxId}/${payload.mergedInto.innerBoxId}. Split its items off instead of restoring it.`,
+      });
+    }
+    const items = entry.kind === "SESSION" ? payload.items ?? [] : [payload.item];
+
+    // ✅ serials may have been scanned again since the delete (inbound_items_serial_unique)
+    const taken = await client.query(
+      `SELECT serial_number FROM inbound_items WHERE serial_number = ANY($1::text[])`,
+      [items.map((i) => i.serial_number)]
+    );
+    if (taken.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({
+        error: `Serial(s) already received again: ${taken.rows.map((r) => r.serial_number).join(", ")}`,
+        serials: taken.rows.map((r) => r.serial_number),
+      });
+    }
+
+    let session;
+    if (entry.kind === "SESSION") {
+      const clash = await client.query(
+        `SELECT id FROM inbound_sessions WHERE id = $1 OR (outerbox_id = $2 AND innerbox_id = $3)`,
+        [payload.session.id, payload.session.outerbox_id, payload.session.innerbox_id]
+      );
+      if (clash.rows.length) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: `InnerBox ${payload.session.outerbox_id}/${payload.session.innerbox_id} was started again. Delete it before restoring.`,
+        });
+      }
+      const outerBox = await openOuterbox(client, payload.session.outerbox_id, req.user);
+      if (outerBox.status !== "OPEN") {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: `OuterBox ${payload.session.outerbox_id} is CLOSED.` });
+      }
+
+      const restored = await client.query(
+        `INSERT INTO inbound_sessions SELECT * FROM jsonb_populate_record(NULL::inbound_sessions, $1::jsonb) RETURNING *`,
+        [JSON.stringify(payload.session)]
+      );
+      session = restored.rows[0];
+
+      for (const [table, rows] of [
+        ["inbound_session_lines", payload.lines],
+        ["inbound_batches", payload.batches],
+        ["session_reopens", payload.reopens],
+      ]) {
+        if (!rows?.length) continue;
+        await client.query(
+          `INSERT INTO ${table} SELECT * FROM jsonb_populate_recordset(NULL::${table}, $1::jsonb)`,
+          [JSON.stringify(rows)]
+        );
+      }
+
+      // exceptions of the box were kept in quarantine: count them toward it again
+      if (payload.exceptionIds?.length) {
+        await client.query(
+          `UPDATE inbound_exceptions SET session_id = $1 WHERE id = ANY($2::bigint[]) AND session_id IS NULL`,
+          [session.id, payload.exceptionIds]
+        );
+      }
+    } else {
+      const s = await client.query(`SELECT * FROM inbound_sessions WHERE id = $1 FOR UPDATE`, [entry.session_id]);
+      if (!s.rows.length) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "The InnerBox of this item was deleted. Restore the InnerBox first." });
+      }
+      session = s.rows[0];
+      const item = payload.item;
+
+      const outerBox = await openOuterbox(client, session.outerbox_id, req.user);
+      if (outerBox.status !== "OPEN") {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: `OuterBox ${session.outerbox_id} is CLOSED.` });
+      }
+
+      // ✅ the box may have been confirmed, re-locked to another SKU or filled up since the delete
+      const counts = new Map([[toUpperText(item.sku), 1]]);
+      const targetError = await transferTargetError(client, session, counts);
+      if (targetError) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: targetError });
+      }
+      if (session.mode !== "MIXED" && !session.locked_sku) {
+        await client.query(`UPDATE inbound_sessions SET locked_sku = $2 WHERE id = $1`, [session.id, toUpperText(item.sku)]);
+      }
+
+      // its batch may be gone (batch reset); keep the item unbatched then
+      if (item.batch_id) {
+        const batch = await client.query(`SELECT 1 FROM inbound_batches WHERE id = $1`, [item.batch_id]);
+        if (!batch.rows.length) item.batch_id = null;
+      }
+    }
+
+    if (items.length) {
+      await client.query(
+        `INSERT INTO inbound_items SELECT * FROM jsonb_populate_recordset(NULL::inbound_items, $1::jsonb)`,
+        [JSON.stringify(items)]
+      );
+    }
+
+    await client.query(
+      `UPDATE recycle_bin SET restored_by = $2, restored_at = now() WHERE id = $1`,
+      [id, req.user.username]
+    );
+
+    if (entry.kind === "SESSION") {
+      await writeAudit(client, req.user, "SESSION_RESTORE", {
+        session,
+        serials: items.map((i) => i.serial_number),
+        after: { session: sessionSnapshot(session), items: items.map(itemSnapshot) },
+      });
+    } else {
+      await writeAudit(client, req.user, "ITEM_RESTORE", {
+        session,
+        itemId: Number(items[0].id),
+        serials: [items[0].serial_number],
+        after: itemSnapshot(items[0]),
+      });
+    }
+
+    await client.query("COMMIT");
+    notifyDashboard();
+    res.json({ ok: true, kind: entry.kind, sessionId: Number(session.id), restoredItems: items.length });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    if (e.code === "23505") {
+      return res.status(409).json({ error: "Serial number or InnerBox already exists.", details: e.detail });
+    }
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ====================================================
+// ✅ MOVE / SPLIT / MERGE ITEMS BETWEEN INNERBOXES (admin)
+// Every operation locks both sessions and re-checks status, locked_sku
+// (or MIXED lines) and expected_qty on both sides in one transaction.
+// Moved items leave their scan batch (batch_id NULL counts as confirmed).
+// ====================================================
+
+// Lock sessions in id order so two opposite moves cannot deadlock
+async function lockSessions(db, ids) {
+  const r = await db.query(
+    `SELECT * FROM inbound_sessions WHERE id = ANY($1::bigint[]) ORDER BY id FOR UPDATE`,
+    [ids]
+  );
+  return new Map(r.rows.map((row) => [Number(row.id), row]));
+}
+
+const boxLabel = (session) => `${session.outerbox_id}/${session.innerbox_id}`;
+
+// { sku -> count } of the items being moved
+function countBySku(items) {
+  const counts = new Map();
+  for (const it of items) counts.set(toUpperText(it.sku), (counts.get(toUpperText(it.sku)) ?? 0) + 1);
+  return counts;
+}
+
+// Returns an error message when `target` cannot take these items, else null.
+// addExpected: extra expected qty the target gets with them (merge).
+async function transferTargetError(db, target, counts, addExpected = 0) {
+  if (target.status === "CONFIRMED") return `InnerBox ${boxLabel(target)} is CONFIRMED. Reopen it first.`;
+
+  const moving = [...counts.values()].reduce((a, b) => a + b, 0);
+
+  if (target.mode === "MIXED") {
+    const lines = await loadSessionLines(db, target.id);
+    for (const [sku, n] of counts) {
+      const line = lines.find((l) => l.sku === sku);
+      if (!line) return `SKU ${sku} is not declared for InnerBox ${boxLabel(target)}.`;
+      const held = line.scannedQty + line.exceptionQty + n;
+      if (held > line.expectedQty) {
+        return `InnerBox ${boxLabel(target)} would hold ${held} of ${line.expectedQty} for SKU ${sku}.`;
+      }
+    }
+    return null;
+  }
+
+  if (counts.size > 1) return `InnerBox ${boxLabel(target)} takes a single SKU (${[...counts.keys()].join(", ")}).`;
+  const [sku] = counts.keys();
+  if (sku && target.locked_sku && toUpperText(target.locked_sku) !== sku) {
+    return `SKU mismatch. InnerBox ${boxLabel(target)} is locked to ${target.locked_sku}, items are ${sku}.`;
+  }
+
+  const expected = toInt(target.expected_qty, 0) + addExpected;
+  if (expected > 0) {
+    const c = await db.query(`SELECT COUNT(*)::int AS c FROM inbound_items WHERE session_id = $1`, [target.id]);
+    const held = c.rows[0].c + (await countSessionExceptions(db, target.id)) + moving;
+    if (held > expected) {
+      return `InnerBox ${boxLabel(target)} would hold ${held} of ${expected}.`;
+    }
+  }
+  return null;
+}
+
+// Re-point items at the target session; a SINGLE target without a lock takes the items' SKU
+async function transferItems(db, itemIds, target, counts) {
+  if (target.mode !== "MIXED" && !target.locked_sku && counts.size === 1) {
+    await db.query(`UPDATE inbound_sessions SET locked_sku = $2 WHERE id = $1`, [target.id, [...counts.keys()][0]]);
+  }
+  const r = await db.query(
+    `
+    UPDATE inbound_items
+    SET session_id = $2, outerbox_id = $3, innerbox_id = $4, batch_id = NULL
+    WHERE id = ANY($1::bigint[])
+    RETURNING *
+    `,
+    [itemIds, target.id, target.outerbox_id, target.innerbox_id]
+  );
+  return r.rows;
+}
+
+// Same audit row on both sessions so each history shows the move
+async function auditTransfer(db, actor, action, from, to, items, extra = {}) {
+  const serials = items.map((i) => i.serial_number);
+  const before = { outerBoxId: from.outerbox_id, innerBoxId: from.innerbox_id };
+  const after = { outerBoxId: to.outerbox_id, innerBoxId: to.innerbox_id, count: items.length, ...extra };
+  for (const session of [from, to]) {
+    await writeAudit(db, actor, action, { session, serials, before, after });
+  }
+}
+
+function readItemIds(raw) {
+  const list = Array.isArray(raw) ? raw : [];
+  return [...new Set(list.map((v) => toInt(v, 0)).filter((v) => v > 0))];
+}
+
+// Selected items of `session` (all must belong to it)
+async function loadSessionItemsById(db, sessionId, itemIds) {
+  const r = await db.query(
+    `SELECT * FROM inbound_items WHERE id = ANY($1::bigint[]) AND session_id = $2 ORDER BY id FOR UPDATE`,
+    [itemIds, sessionId]
+  );
+  return r.rows;
+}
+
+// ----------------------------------------------------
+// ADMIN: move selected items into another InnerBox
+// POST /api/admin/inbounds/items/move
+// body: { itemIds: number[], toSessionId }
+// ----------------------------------------------------
+app.post("/api/admin/inbounds/items/move", requireRole("supervisor"), async (req, res) => {
+  const itemIds = readItemIds(req.body?.itemIds);
+  const toSessionId = toInt(req.body?.toSessionId, 0);
+
+  if (!itemIds.length) return res.status(400).json({ error: "itemIds is required" });
+  if (!toSessionId) return res.status(400).json({ error: "toSessionId is required" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const src = await client.query(
+      `SELECT DISTINCT session_id FROM inbound_items WHERE id = ANY($1::bigint[])`,
+      [itemIds]
+    );
+    if (src.rows.length !== 1) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: "Items must all come from one InnerBox." });
+    }
+    const fromSessionId = Number(src.rows[0].session_id);
+    if (fromSessionId === toSessionId) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: "Items are already in that InnerBox." });
+    }
+
+    const sessions = await lockSessions(client, [fromSessionId, toSessionId]);
+    const from = sessions.get(fromSessionId);
+    const to = sessions.get(toSessionId);
+    if (!from || !to) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found" });
+    }
+    if (from.status === "CONFIRMED") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `InnerBox ${boxLabel(from)} is CONFIRMED. Reopen it first.` });
+    }
+    const outerBox = await openOuterbox(client, to.outerbox_id, req.user);
+    if (outerBox.status !== "OPEN") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `OuterBox ${to.outerbox_id} is CLOSED.` });
+    }
+
+    const items = await loadSessionItemsById(client, fromSessionId, itemIds);
+    if (items.length !== itemIds.length) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Some items changed InnerBox meanwhile. Refresh and try again." });
+    }
+
+    const counts = countBySku(items);
+    const targetError = await transferTargetError(client, to, counts);
+    if (targetError) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: targetError });
+    }
+
+    const moved = await transferItems(client, itemIds, to, counts);
+    await auditTransfer(client, req.user, "ITEM_MOVE", from, to, moved);
+
+    await client.query("COMMIT");
+    notifyDashboard();
+    res.json({ ok: true, moved: moved.length, fromSessionId, toSessionId });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: split selected items off into a new InnerBox
+// POST /api/admin/inbounds/sessions/:id/split
+// body: { itemIds: number[], innerBoxId, outerBoxId? (defaults to the same OuterBox) }
+// The new box expects exactly the moved items; the source expects that many fewer.
+// ----------------------------------------------------
+app.post("/api/admin/inbounds/sessions/:id/split", requireRole("supervisor"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const itemIds = readItemIds(req.body?.itemIds);
+  const newInner = toText(req.body?.innerBoxId);
+
+  if (!id) return res.status(400).json({ error: "Invalid session id" });
+  if (!itemIds.length) return res.status(400).json({ error: "itemIds is required" });
+  if (!newInner) return res.status(400).json({ error: "innerBoxId is required" });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const from = (await lockSessions(client, [id])).get(id);
+    if (!from) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found" });
+    }
+    if (from.status === "CONFIRMED") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `InnerBox ${boxLabel(from)} is CONFIRMED. Reopen it first.` });
+    }
+
+    const newOuter = toText(req.body?.outerBoxId) || from.outerbox_id;
+    const outerBox = await openOuterbox(client, newOuter, req.user);
+    if (outerBox.status !== "OPEN") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `OuterBox ${newOuter} is CLOSED.` });
+    }
+
+    const exists = await client.query(
+      `SELECT 1 FROM inbound_sessions WHERE outerbox_id = $1 AND innerbox_id = $2`,
+      [newOuter, newInner]
+    );
+    if (exists.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `InnerBox ${newOuter}/${newInner} already exists. Use move instead.` });
+    }
+
+    const items = await loadSessionItemsById(client, id, itemIds);
+    if (items.length !== itemIds.length) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Some items are not in this InnerBox. Refresh and try again." });
+    }
+
+    const counts = countBySku(items);
+    const mode = counts.size > 1 ? "MIXED" : "SINGLE";
+
+    // new box carries the source's lock state (status, owner, lease)
+    const created = await client.query(
+      `
+      INSERT INTO inbound_sessions
+        (outerbox_id, innerbox_id, expected_qty, status, mode, locked_by, locked_sku, last_seen)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+      `,
+      [
+        newOuter,
+        newInner,
+        items.length,
+        from.status,
+        mode,
+        from.locked_by,
+        mode === "SINGLE" ? [...counts.keys()][0] : null,
+        from.last_seen,
+      ]
+    );
+    const to = created.rows[0];
+    if (mode === "MIXED") {
+      await replaceSessionLines(client, to.id, [...counts].map(([sku, n]) => ({ sku, expectedQty: n })));
+    }
+
+    // the source now expects the rest
+    if (from.mode === "MIXED") {
+      const lines = (await loadSessionLines(client, id))
+        .map((l) => ({ sku: l.sku, expectedQty: l.expectedQty - (counts.get(l.sku) ?? 0) }))
+        .filter((l) => l.expectedQty > 0);
+      await replaceSessionLines(client, id, lines);
+      await client.query(`UPDATE inbound_sessions SET expected_qty = $2 WHERE id = $1`, [
+        id,
+        lines.reduce((n, l) => n + l.expectedQty, 0),
+      ]);
+    } else {
+      await client.query(`UPDATE inbound_sessions SET expected_qty = GREATEST(expected_qty - $2, 0) WHERE id = $1`, [
+        id,
+        items.length,
+      ]);
+    }
+
+    const moved = await transferItems(client, itemIds, to, counts);
+    await auditTransfer(client, req.user, "SESSION_SPLIT", from, to, moved);
+
+    await client.query("COMMIT");
+    notifyDashboard();
+    res.json({ ok: true, moved: moved.length, fromSessionId: id, toSessionId: Number(to.id) });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    if (e.code === "23505") return res.status(409).json({ error: "InnerBox already exists." });
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: merge another InnerBox into this one
+// POST /api/admin/inbounds/sessions/:id/merge
+// body: { fromSessionId }
+// Items and expected qty (or MIXED lines) move over; the emptied box goes to the recycle bin.
+// ----------------------------------------------------
+app.post("/api/admin/inbounds/sessions/:id/merge", requireRole("supervisor"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const fromSessionId = toInt(req.body?.fromSessionId, 0);
+
+  if (!id || !fromSessionId) return res.status(400).json({ error: "Invalid session id" });
+  if (id === fromSessionId) return res.status(400).json({ error: "Cannot merge an InnerBox into itself." });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const sessions = await lockSessions(client, [id, fromSessionId]);
+    const to = sessions.get(id);
+    const from = sessions.get(fromSessionId);
+    if (!to || !from) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found" });
+    }
+    const confirmed = [to, from].find((x) => x.status === "CONFIRMED");
+    if (confirmed) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `InnerBox ${boxLabel(confirmed)} is CONFIRMED. Reopen it first.` });
+    }
+    const outerBox = await openOuterbox(client, to.outerbox_id, req.user);
+    if (outerBox.status !== "OPEN") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `OuterBox ${to.outerbox_id} is CLOSED.` });
+    }
+
+    const it = await client.query(`SELECT * FROM inbound_items WHERE session_id = $1 ORDER BY id FOR UPDATE`, [
+      fromSessionId,
+    ]);
+    const items = it.rows;
+    const counts = countBySku(items);
+
+    // what the source box was expected to hold
+    const fromLines =
+      from.mode === "MIXED"
+        ? (await loadSessionLines(client, fromSessionId)).map((l) => ({ sku: l.sku, expectedQty: l.expectedQty }))
+        : [{ sku: toUpperText(from.locked_sku) || [...counts.keys()][0] || "", expectedQty: toInt(from.expected_qty, 0) }];
+    const addExpected = fromLines.reduce((n, l) => n + l.expectedQty, 0);
+    let newExpected = toInt(to.expected_qty, 0) + addExpected;
+
+    if (to.mode === "MIXED") {
+      // lines first, so the target check sees the merged expectations
+      const merged = new Map((await loadSessionLines(client, id)).map((l) => [l.sku, l.expectedQty]));
+      for (const l of fromLines) {
+        if (l.sku) merged.set(l.sku, (merged.get(l.sku) ?? 0) + l.expectedQty);
+      }
+      await replaceSessionLines(client, id, [...merged].map(([sku, expectedQty]) => ({ sku, expectedQty })));
+      newExpected = [...merged.values()].reduce((a, b) => a + b, 0);
+    } else if (from.mode === "MIXED" && new Set(fromLines.map((l) => l.sku)).size > 1) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `InnerBox ${boxLabel(to)} takes a single SKU; merge into a mixed InnerBox instead.` });
+    }
+
+    // exceptions go with the expected qty they were counted against
+    await client.query(
+      `UPDATE inbound_exceptions SET session_id = $1, outerbox_id = $2, innerbox_id = $3 WHERE session_id = $4`,
+      [id, to.outerbox_id, to.innerbox_id, fromSessionId]
+    );
+
+    const mergeCounts = counts.size ? counts : new Map(fromLines.filter((l) => l.sku).map((l) => [l.sku, 0]));
+    const targetError = await transferTargetError(client, to, mergeCounts, to.mode === "MIXED" ? 0 : addExpected);
+    if (targetError) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: targetError });
+    }
+
+    await client.query(`UPDATE inbound_sessions SET expected_qty = $2 WHERE id = $1`, [id, newExpected]);
+    const moved = items.length ? await transferItems(client, items.map((i) => Number(i.id)), to, counts) : [];
+
+    await auditTransfer(client, req.user, "SESSION_MERGE", from, to, moved, { addedExpectedQty: addExpected });
+    await binSession(client, from, req.user, `Merged into ${boxLabel(to)}`, {
+      id: Number(to.id),
+      outerBoxId: to.outerbox_id,
+      innerBoxId: to.innerbox_id,
+    });
+
+    await client.query("COMMIT");
+    notifyDashboard();
+    res.json({ ok: true, moved: moved.length, fromSessionId, toSessionId: id });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ====================================================
+// ✅ ENTRY METHOD (hardware scanner burst vs typed by hand)
+// The client times keystrokes per field and sends how each value was entered.
+// Policy per field (env ENTRY_POLICY_OUTER / _INNER / _SKU / _SERIAL):
+//   ALLOW  - accept silently
+//   FLAG   - accept, operator is warned, row is recorded as MANUAL (default)
+//   REJECT - only SCANNER / CAMERA entries are accepted (typed or untracked ones are refused)
+// outer/inner are enforced on the device; sku/serial are enforced here as well.
+// Requires:
+//
+// ALTER TABLE inbound_items ADD COLUMN IF NOT EXISTS entry_method TEXT;      -- serial: SCANNER | CAMERA | MANUAL (NULL = not tracked)
+// ALTER TABLE inbound_items ADD COLUMN IF NOT EXISTS sku_entry_method TEXT;  -- same, for the SKU scan
+// ====================================================
+const ENTRY_METHODS = ["SCANNER", "CAMERA", "MANUAL"];
+const ENTRY_POLICIES = ["ALLOW", "FLAG", "REJECT"];
+const ENTRY_FIELDS = ["outer", "inner", "sku", "serial"];
+
+const ENTRY_POLICY = Object.fromEntries(
+  ENTRY_FIELDS.map((field) => {
+    const v = toUpperText(process.env[`ENTRY_POLICY_${field.toUpperCase()}`]);
+    return [field, ENTRY_POLICIES.includes(v) ? v : "FLAG"];
+  })
+);
+
+function readEntryMethod(raw) {
+  const v = toUpperText(raw);
+  return ENTRY_METHODS.includes(v) ? v : null;
+}
+
+// { field: method } -> error message for the first entry of a REJECT field that was not scanned
+// (no method = older client, old offline-queue entry or direct API call: not proven scanned)
+function entryPolicyError(methods) {
+  for (const [field, method] of Object.entries(methods)) {
+    if (ENTRY_POLICY[field] === "REJECT" && method !== "SCANNER" && method !== "CAMERA") {
+      return `${field === "sku" ? "SKU" : "Serial number"} must be scanned, not typed.`;
+    }
+  }
+  return null;
+}
+
+// ----------------------------------------------------
+// Entry policy for the scan page
+// GET /api/inbounds/entry-policy
+// ----------------------------------------------------
+app.get("/api/inbounds/entry-policy", requireRole("operator"), (req, res) => {
+  res.json({ policy: ENTRY_POLICY });
+});
+
+// ====================================================
+// ✅ IDEMPOTENT ITEM CREATE (client scan ids)
+// Each scan carries a client-generated scanId. The first request stores its
+// response; any repeat (network retry, scanner double-fire, offline replay)
+// gets that same response back, even if the item was deleted since.
+// Failed requests store nothing, so a retry is validated again.
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS inbound_scan_requests (
+//   scan_id TEXT PRIMARY KEY,
+//   session_id BIGINT NOT NULL,
+//   packed_by TEXT NOT NULL,
+//   item_id BIGINT,
+//   response JSONB,
+//   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+// );
+//
+// -- cleanup: DELETE FROM inbound_scan_requests WHERE created_at < now() - interval '30 days';
+// ====================================================
+function readScanId(raw) {
+  const v = toText(raw);
+  return /^[A-Za-z0-9_-]{8,64}$/.test(v) ? v : "";
+}
+
+// Returns the earlier request for this scanId, or null when this request now owns it
+async function reserveScanId(db, scanId, sessionId, packedBy) {
+  const r = await db.query(
+    `
+    INSERT INTO inbound_scan_requests (scan_id, session_id, packed_by)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (scan_id) DO NOTHING
+    RETURNING scan_id
+    `,
+    [scanId, sessionId, packedBy]
+  );
+  if (r.rows.length) return null;
+
+  const prior = await db.query(`SELECT * FROM inbound_scan_requests WHERE scan_id = $1`, [scanId]);
+  return prior.rows[0];
+}
+
+async function recordScanResult(db, scanId, item) {
+  await db.query(
+    `UPDATE inbound_scan_requests SET item_id = $2, response = $3::jsonb WHERE scan_id = $1`,
+    [scanId, item.id, JSON.stringify(item)]
+  );
+}
+
+function replayScan(res, prior, sessionId, packedBy) {
+  if (prior.packed_by !== packedBy) {
+    return res.status(409).json({ error: "Scan id already used by another operator." });
+  }
+  if (Number(prior.session_id) !== sessionId) {
+    return res.status(409).json({ error: "Scan id already used for another InnerBox." });
+  }
+  return res.status(200).json({ ...prior.response, replayed: true });
+}
+
+// ====================================================
+// ✅ WORKFLOW POLICY (batch size, batch confirmation, double scan)
+// Site-wide default from env; per-SKU overrides are SKU master columns (NULL = site default)
+// and reach the devices with the cached SKU list (GET /api/skus).
+//   WORKFLOW_BATCH_SIZE          items per batch (default 5)
+//   WORKFLOW_CONFIRM_BATCHES     "false": no batch confirmation, open batches are confirmed on complete
+//   WORKFLOW_DOUBLE_SCAN_OUTER   "false": OuterBox ID is scanned once
+//   WORKFLOW_DOUBLE_SCAN_INNER   "false": InnerBox ID is scanned once
+// An OuterBox holds many SKUs, so only the InnerBox double scan has a per-SKU override
+// (applied when the ASN names the InnerBox's SKU). A MIXED InnerBox follows the strictest of its lines.
+// Requires:
+//
+// ALTER TABLE skus ADD COLUMN IF NOT EXISTS batch_size INT;             -- 1..500
+// ALTER TABLE skus ADD COLUMN IF NOT EXISTS confirm_batches BOOLEAN;
+// ALTER TABLE skus ADD COLUMN IF NOT EXISTS double_scan_inner BOOLEAN;
+// ====================================================
+const MAX_BATCH_SIZE = 500;
+const envFlag = (name) => toText(process.env[name]).toLowerCase() !== "false";
+
+const WORKFLOW_POLICY = {
+  batchSize: Math.min(MAX_BATCH_SIZE, Math.max(1, toInt(process.env.WORKFLOW_BATCH_SIZE || 5, 5))),
+  confirmBatches: envFlag("WORKFLOW_CONFIRM_BATCHES"),
+  doubleScan: {
+    outer: envFlag("WORKFLOW_DOUBLE_SCAN_OUTER"),
+    inner: envFlag("WORKFLOW_DOUBLE_SCAN_INNER"),
+  },
+};
+
+// Normalizes workflow override fields from an admin request body (null clears an override)
+function readWorkflowRules(body) {
+  const out = {};
+
+  if (body?.batchSize !== undefined) {
+    const n = body.batchSize === null || body.batchSize === "" ? null : toInt(body.batchSize, -1);
+    if (n !== null && (n < 1 || n > MAX_BATCH_SIZE)) {
+      return { error: `batchSize must be between 1 and ${MAX_BATCH_SIZE}.` };
+    }
+    out.batch_size = n;
+  }
+  if (body?.confirmBatches !== undefined) {
+    out.confirm_batches = body.confirmBatches === null ? null : !!body.confirmBatches;
+  }
+  if (body?.doubleScanInner !== undefined) {
+    out.double_scan_inner = body.doubleScanInner === null ? null : !!body.doubleScanInner;
+  }
+
+  return { values: out };
+}
+
+// skus rows of one InnerBox -> effective policy (each SKU falls back to the site default, strictest wins)
+function resolveWorkflowPolicy(skuRows) {
+  if (!skuRows.length) return WORKFLOW_POLICY;
+  return {
+    batchSize: Math.min(...skuRows.map((r) => r.batch_size ?? WORKFLOW_POLICY.batchSize)),
+    confirmBatches: skuRows.some((r) => r.confirm_batches ?? WORKFLOW_POLICY.confirmBatches),
+    doubleScan: {
+      outer: WORKFLOW_POLICY.doubleScan.outer,
+      inner: skuRows.some((r) => r.double_scan_inner ?? WORKFLOW_POLICY.doubleScan.inner),
+    },
+  };
+}
+
+async function sessionWorkflowPolicy(db, session) {
+  const skus =
+    session.mode === "MIXED"
+      ? (await loadSessionLines(db, session.id)).map((l) => l.sku)
+      : [toUpperText(session.locked_sku)].filter(Boolean);
+  if (!skus.length) return WORKFLOW_POLICY;
+
+  const r = await db.query(`SELECT * FROM skus WHERE sku = ANY($1::text[])`, [skus]);
+  return resolveWorkflowPolicy(r.rows);
+}
+
+// ----------------------------------------------------
+// Site-wide workflow policy (per-SKU overrides come with GET /api/skus)
+// GET /api/inbounds/workflow-policy
+// ----------------------------------------------------
+app.get("/api/inbounds/workflow-policy", requireRole("operator"), (req, res) => {
+  res.json({ policy: WORKFLOW_POLICY, maxBatchSize: MAX_BATCH_SIZE });
+});
+
+// ====================================================
+// ✅ EXCEPTION ITEMS + QUARANTINE
+// Units that cannot be received as good items (damaged, no label, unreadable serial, ...)
+// are recorded against the session with a reason code, optional note and photos.
+// They count toward expected_qty on complete (scanned + exceptions) and stay QUARANTINED
+// until a supervisor resolves them. Deleting the session keeps them in quarantine.
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS inbound_exceptions (
+//   id BIGSERIAL PRIMARY KEY,
+//   session_id BIGINT REFERENCES inbound_sessions(id) ON DELETE SET NULL,
+//   outerbox_id TEXT NOT NULL,
+//   innerbox_id TEXT NOT NULL,
+//   sku TEXT,
+//   serial_number TEXT,                     -- NULL when the serial cannot be read
+//   reason_code TEXT NOT NULL,
+//   note TEXT,
+//   status TEXT NOT NULL DEFAULT 'QUARANTINED', -- QUARANTINED | RESOLVED
+//   recorded_by TEXT NOT NULL,
+//   recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+//   resolution TEXT,
+//   resolution_note TEXT,
+//   resolved_by TEXT,
+//   resolved_at TIMESTAMPTZ
+// );
+// CREATE INDEX IF NOT EXISTS inbound_exceptions_session_idx ON inbound_exceptions (session_id);
+//
+// CREATE TABLE IF NOT EXISTS inbound_exception_photos (
+//   id BIGSERIAL PRIMARY KEY,
+//   exception_id BIGINT NOT NULL REFERENCES inbound_exceptions(id) ON DELETE CASCADE,
+//   content_type TEXT NOT NULL,
+//   data BYTEA NOT NULL,
+//   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+// );
+// ====================================================
+const EXCEPTION_REASONS = ["DAMAGED", "MISSING_LABEL", "UNREADABLE_SERIAL", "WRONG_ITEM", "OTHER"];
+const EXCEPTION_RESOLUTIONS = ["RESTOCK", "RETURN_TO_VENDOR", "SCRAP", "REWORK"];
+const MAX_EXCEPTION_PHOTOS = 3;
+const MAX_PHOTO_BYTES = 1024 * 1024; // 3 photos as base64 stay under the 5mb JSON body limit
+
+const EXCEPTION_COLUMNS = `
+  e.id,
+  e.session_id AS "sessionId",
+  e.outerbox_id AS "outerBoxId",
+  e.innerbox_id AS "innerBoxId",
+  e.sku,
+  e.serial_number AS "serialNumber",
+  e.reason_code AS "reasonCode",
+  e.note,
+  e.status,
+  e.recorded_by AS "recordedBy",
+  e.recorded_at AS "recordedAt",
+  e.resolution,
+  e.resolution_note AS "resolutionNote",
+  e.resolved_by AS "resolvedBy",
+  e.resolved_at AS "resolvedAt",
+  (
+    SELECT COALESCE(json_agg(p.id ORDER BY p.id), '[]'::json)
+    FROM inbound_exception_photos p
+    WHERE p.exception_id = e.id
+  ) AS "photoIds"
+`;
+
+// data URLs ("data:image/jpeg;base64,...") -> [{ contentType, data }] or { error }
+function readExceptionPhotos(raw) {
+  const list = Array.isArray(raw) ? raw : [];
+  if (list.length > MAX_EXCEPTION_PHOTOS) return { error: `At most ${MAX_EXCEPTION_PHOTOS} photos per exception.` };
+
+  const photos = [];
+  for (const entry of list) {
+    const m = /^data:(image\/(?:jpeg|png|webp));base64,([A-Za-z0-9+/=]+)$/.exec(toText(entry));
+    if (!m) return { error: "Photos must be JPEG, PNG or WebP images." };
+    const data = Buffer.from(m[2], "base64");
+    if (data.length > MAX_PHOTO_BYTES) return { error: "A photo is too large (max 1 MB)." };
+    photos.push({ contentType: m[1], data });
+  }
+  return { photos };
+}
+
+async function countSessionExceptions(db, sessionId) {
+  const r = await db.query(`SELECT COUNT(*)::int AS c FROM inbound_exceptions WHERE session_id = $1`, [sessionId]);
+  return r.rows[0].c;
+}
+
+async function loadSessionExceptions(db, sessionId) {
+  const r = await db.query(
+    `SELECT ${EXCEPTION_COLUMNS} FROM inbound_exceptions e WHERE e.session_id = $1 ORDER BY e.id ASC`,
+    [sessionId]
+  );
+  return r.rows;
+}
+
+async function findException(db, id) {
+  const r = await db.query(`SELECT ${EXCEPTION_COLUMNS} FROM inbound_exceptions e WHERE e.id = $1`, [id]);
+  return r.rows[0] ?? null;
+}
+
+// ----------------------------------------------------
+// Record an exception unit in the InnerBox being scanned
+// POST /api/inbounds/sessions/:id/exceptions
+// body: { reasonCode, sku?, serialNumber?, note?, photos?: dataUrl[] }
+// ----------------------------------------------------
+app.post("/api/inbounds/sessions/:id/exceptions", requireRole("operator"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const reasonCode = toUpperText(req.body?.reasonCode);
+  const serialNumber = toUpperText(req.body?.serialNumber);
+  const note = toText(req.body?.note);
+  const packedBy = req.user.username;
+
+  if (!id) return res.status(400).json({ error: "Invalid session id." });
+  if (!EXCEPTION_REASONS.includes(reasonCode)) {
+    return res.status(400).json({ error: `reasonCode must be one of ${EXCEPTION_REASONS.join(", ")}` });
+  }
+  if (reasonCode === "OTHER" && !note) return res.status(400).json({ error: "A note is required for reason OTHER" });
+
+  const photos = readExceptionPhotos(req.body?.photos);
+  if (photos.error) return res.status(400).json({ error: photos.error });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const s = await client.query(`SELECT * FROM inbound_sessions WHERE id = $1 FOR UPDATE`, [id]);
+    if (!s.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Session not found." });
+    }
+
+    const session = s.rows[0];
+    if (session.status !== "IN_PROGRESS") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Session is not IN_PROGRESS." });
+    }
+    if (toText(session.locked_by) !== packedBy) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "InnerBox is locked by another user." });
+    }
+
+    // SINGLE: the box's SKU unless the operator names one (e.g. WRONG_ITEM); MIXED: must be a line with room
+    const sku = toUpperText(req.body?.sku) || toUpperText(session.locked_sku) || null;
+    if (session.mode === "MIXED") {
+      if (!sku) {
+        await client.query("ROLLBACK");
+        return res.status(400).json({ error: "sku is required for a mixed InnerBox." });
+      }
+      const lineError = mixedLineError(await loadSessionLines(client, id), sku);
+      if (lineError) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: lineError });
+      }
+    }
+
+    const c = await client.query(`SELECT COUNT(*)::int AS c FROM inbound_items WHERE session_id = $1`, [id]);
+    const counted = c.rows[0].c + (await countSessionExceptions(client, id));
+    const expected = toInt(session.expected_qty, 0);
+    if (expected > 0 && counted >= expected) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: `InnerBox is already full (${counted}/${expected}).` });
+    }
+
+    if (serialNumber) {
+      const dup = await client.query(`SELECT 1 FROM inbound_items WHERE serial_number = $1`, [serialNumber]);
+      if (dup.rows.length) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: `Serial ${serialNumber} is already saved as a good item.` });
+      }
+    }
+
+    const ins = await client.query(
+      `
+      INSERT INTO inbound_exceptions
+        (session_id, outerbox_id, innerbox_id, sku, serial_number, reason_code, note, recorded_by)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING id
+      `,
+      [id, session.outerbox_id, session.innerbox_id, sku, serialNumber || null, reasonCode, note || null, packedBy]
+    );
+    const exceptionId = ins.rows[0].id;
+
+    for (const p of photos.photos) {
+      await client.query(
+        `INSERT INTO inbound_exception_photos (exception_id, content_type, data) VALUES ($1, $2, $3)`,
+        [exceptionId, p.contentType, p.data]
+      );
+    }
+
+    const exception = await findException(client, exceptionId);
+    await writeAudit(client, req.user, "EXCEPTION_ADD", {
+      session,
+      serials: serialNumber ? [serialNumber] : [],
+      after: exception,
+    });
+    await client.query(`UPDATE inbound_sessions SET last_seen = now() WHERE id = $1`, [id]);
+
+    await client.query("COMMIT");
+    notifyDashboard();
+    return res.status(201).json({ ok: true, exception });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    return res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
+});
+
+// ----------------------------------------------------
+// Remove an exception recorded by mistake (while the InnerBox is still being scanned)
+// DELETE /api/inbounds/sessions/:id/exceptions/:exceptionId
+// ----------------------------------------------------
+app.delete("/api/inbounds/sessions/:id/exceptions/:exceptionId", requireRole("operator"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const exceptionId = toInt(req.params.exceptionId, 0);
+  const packedBy = req.user.username;
+
+  if (!id || !exceptionId) return res.status(400).json({ error: "Invalid session or exception id." });
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const s = await client.query(`SELECT * FROM inbound_sessions WHERE id = $1 FOR UPDATE`, [id]);
+    const session = s.rows[0];
+    if (!session || session.status !== "IN_PROGRESS" || toText(session.locked_by) !== packedBy) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "Not allowed (locked by another user or not in progress)." });
     }
 
-    if (finalSerial === finalSku) {
+    const before = await findException(client, exceptionId);
+    if (!before || Number(before.sessionId) !== id) {
       await client.query("ROLLBACK");
-      return res.status(409).json({ error: "Serial number cannot be the same as SKU." });
+      return res.status(404).json({ error: "Exception not found." });
     }
-
-    // 4) Enforce DB locked SKU exactly like createInboundItem
-    if (!session.locked_sku) {
-      // if lock not set, set it to the edited SKU (first SKU becomes lock)
-      await client.query(`UPDATE inbound_sessions SET locked_sku = $2 WHERE id = $1`, [
-        sessionId,
-        finalSku,
-      ]);
-    } else {
-      // if lock exists, SKU must match
-      if (toUpperText(session.locked_sku) !== finalSku) {
-        await client.query("ROLLBACK");
-        return res.status(409).json({
-          error: `SKU mismatch. Locked SKU is ${session.locked_sku}. You tried ${finalSku}. Clear Locked SKU first.`,
-        });
-      }
+    if (before.status !== "QUARANTINED") {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Exception is already resolved." });
     }
 
-    // 5) Update the item (serial uniqueness is enforced by your unique index)
-    const updated = await client.query(
-      `
-      UPDATE inbound_items
-      SET sku = $2, serial_number = $3
-      WHERE id = $1
-      RETURNING
-        id,
-        session_id AS "sessionId",
-        sku,
-        serial_number AS "serialNumber",
-        packed_by AS "packedBy",
-        created_at AS "createdAt"
-      `,
-      [itemId, finalSku, finalSerial]
-    );
+    await client.query(`DELETE FROM inbound_exceptions WHERE id = $1`, [exceptionId]);
+    await writeAudit(client, req.user, "EXCEPTION_REMOVE", {
+      session,
+      serials: before.serialNumber ? [before.serialNumber] : [],
+      before,
+    });
 
     await client.query("COMMIT");
-    res.json({ ok: true, item: updated.rows[0] });
+    notifyDashboard();
+    return res.json({ ok: true });
   } catch (e) {
     await client.query("ROLLBACK");
-
-    // duplicate serial
-    if (e.code === "23505") {
-      return res.status(409).json({ error: "Serial number already exists." });
-    }
-
-    res.status(500).json({ error: "Server error", details: e.message });
+    return res.status(500).json({ error: "Server error", details: e.message });
   } finally {
     client.release();
   }
 });
 
 // ----------------------------------------------------
-// ADMIN: Update a session (expectedQty / clearLockedSku)
-// PATCH /api/admin/inbounds/sessions/:id
-// body: { expectedQty?, clearLockedSku? }
+// ADMIN: quarantine list
+// GET /api/admin/exceptions?status=QUARANTINED|RESOLVED&q=<outer / inner / serial / sku>&limit=
 // ----------------------------------------------------
-app.patch("/api/admin/inbounds/sessions/:id", requireAdmin, async (req, res) => {
-  const id = toInt(req.params.id, 0);
-  if (!id) return res.status(400).json({ error: "Invalid session id" });
-
-  const expectedQty = req.body?.expectedQty;
-  const clearLockedSku = !!req.body?.clearLockedSku;
+app.get("/api/admin/exceptions", requireRole("supervisor"), async (req, res) => {
+  const status = toUpperText(req.query.status);
+  const q = toText(req.query.q);
+  const limit = Math.min(Math.max(toInt(req.query.limit, 200), 1), 500);
 
-  const sets = [];
+  const where = [];
   const values = [];
-  let i = 1;
-
-  if (expectedQty !== undefined) {
-    sets.push(`expected_qty = $${i++}`);
-    values.push(Math.max(0, toInt(expectedQty, 0)));
+  if (status) {
+    values.push(status);
+    where.push(`e.status = $${values.length}`);
   }
-
-  if (clearLockedSku) {
-    sets.push(`locked_sku = NULL`);
+  if (q) {
+    values.push(`%${q}%`);
+    const p = `$${values.length}`;
+    where.push(`(e.outerbox_id ILIKE ${p} OR e.innerbox_id ILIKE ${p} OR e.serial_number ILIKE ${p} OR e.sku ILIKE ${p})`);
   }
+  values.push(limit);
 
-  if (!sets.length) {
-    return res.status(400).json({ error: "No changes provided" });
+  try {
+    const r = await pool.query(
+      `
+      SELECT ${EXCEPTION_COLUMNS}
+      FROM inbound_exceptions e
+      ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+      ORDER BY (e.status = 'QUARANTINED') DESC, e.recorded_at DESC
+      LIMIT $${values.length}
+      `,
+      values
+    );
+    res.json({ reasons: EXCEPTION_REASONS, resolutions: EXCEPTION_RESOLUTIONS, exceptions: r.rows });
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
   }
+});
 
-  values.push(id);
-
-  const q = `
-    UPDATE inbound_sessions
-    SET ${sets.join(", ")}
-    WHERE id = $${i}
-    RETURNING
-      id,
-      outerbox_id AS "outerBoxId",
-      innerbox_id AS "innerBoxId",
-      expected_qty AS "expectedQty",
-      status,
-      locked_sku AS "lockedSku",
-      confirmed_at AS "confirmedAt",
-      locked_at AS "lockedAt";
-  `;
+// ----------------------------------------------------
+// ADMIN: exception photo (image bytes)
+// GET /api/admin/exceptions/:id/photos/:photoId
+// ----------------------------------------------------
+app.get("/api/admin/exceptions/:id/photos/:photoId", requireRole("supervisor"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const photoId = toInt(req.params.photoId, 0);
+  if (!id || !photoId) return res.status(400).json({ error: "Invalid exception or photo id" });
 
-  const r = await pool.query(q, values);
-  if (!r.rows.length) return res.status(404).json({ error: "Session not found" });
+  const r = await pool.query(
+    `SELECT content_type, data FROM inbound_exception_photos WHERE id = $1 AND exception_id = $2`,
+    [photoId, id]
+  );
+  if (!r.rows.length) return res.status(404).json({ error: "Photo not found" });
 
-  res.json({ ok: true, session: r.rows[0] });
+  res.type(r.rows[0].content_type).send(r.rows[0].data);
 });
 
 // ----------------------------------------------------
-// ADMIN: Delete a whole session (and its items)
-// DELETE /api/admin/inbounds/sessions/:id
+// ADMIN: resolve a quarantined exception
+// POST /api/admin/exceptions/:id/resolve
+// body: { resolution, note? }
 // ----------------------------------------------------
-app.delete("/api/admin/inbounds/sessions/:id", requireAdmin, async (req, res) => {
+app.post("/api/admin/exceptions/:id/resolve", requireRole("supervisor"), async (req, res) => {
   const id = toInt(req.params.id, 0);
-  if (!id) return res.status(400).json({ error: "Invalid session id" });
+  const resolution = toUpperText(req.body?.resolution);
+  const note = toText(req.body?.note);
+
+  if (!id) return res.status(400).json({ error: "Invalid exception id" });
+  if (!EXCEPTION_RESOLUTIONS.includes(resolution)) {
+    return res.status(400).json({ error: `resolution must be one of ${EXCEPTION_RESOLUTIONS.join(", ")}` });
+  }
 
   const client = await pool.connect();
   try {
     await client.query("BEGIN");
 
-    // delete items first
-    await client.query(`DELETE FROM inbound_items WHERE session_id = $1`, [id]);
+    const before = await findException(client, id);
+    if (!before) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Exception not found" });
+    }
+
+    const r = await client.query(
+      `
+      UPDATE inbound_exceptions
+      SET status = 'RESOLVED', resolution = $2, resolution_note = $3, resolved_by = $4, resolved_at = now()
+      WHERE id = $1 AND status = 'QUARANTINED'
+      RETURNING id
+      `,
+      [id, resolution, note || null, req.user.username]
+    );
+    if (!r.rows.length) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Exception is already resolved" });
+    }
 
-    // delete session
-    const del = await client.query(`DELETE FROM inbound_sessions WHERE id = $1`, [id]);
+    const exception = await findException(client, id);
+    await writeAudit(client, req.user, "EXCEPTION_RESOLVE", {
+      session: { id: before.sessionId, outerbox_id: before.outerBoxId, innerbox_id: before.innerBoxId },
+      serials: before.serialNumber ? [before.serialNumber] : [],
+      before,
+      after: exception,
+    });
 
     await client.query("COMMIT");
-    return res.json({ ok: true, deleted: del.rowCount });
+    res.json({ ok: true, exception });
   } catch (e) {
     await client.query("ROLLBACK");
-    return res.status(500).json({ error: "Server error", details: e.message });
+    res.status(500).json({ error: "Server error", details: e.message });
   } finally {
     client.release();
   }
 });
 
-// ✅ DELETE a session (and its items) by Outer+Inner, regardless of status
-// POST /api/inbounds/sessions/delete-by-box
-// body: { outerBoxId, innerBoxId, packedBy }
-app.post("/api/inbounds/sessions/delete-by-box", async (req, res) => {
-  const outer = toText(req.body?.outerBoxId);
-  const inner = toText(req.body?.innerBoxId);
-  const packedBy = toText(req.body?.packedBy);
+// ====================================================
+// ✅ SUPPLIER SERIAL MANIFESTS (expected serials per OuterBox or PO)
+// Suppliers send the serials of a delivery ahead of time. A manifest is tied to an
+// OuterBox, or to a PO (then it covers every OuterBox listed on an ASN with that PO).
+// A listed serial counts as received while an inbound item with that serial exists,
+// so deletes and recycle-bin restores need no extra bookkeeping.
+// Scans into a covered OuterBox are checked against it (env SERIAL_MANIFEST_POLICY):
+//   WARN  - the item is saved, the response carries manifestWarning (default)
+//   BLOCK - the scan is refused with 409
+// Once every OuterBox a manifest covers is CLOSED, its missing-from-delivery report is final.
+// Requires:
+//
+// CREATE TABLE IF NOT EXISTS serial_manifests (
+//   id BIGSERIAL PRIMARY KEY,
+//   manifest_ref TEXT NOT NULL UNIQUE,        -- supplier file / delivery reference
+//   outerbox_id TEXT,                         -- set when every serial is for one OuterBox
+//   po_number TEXT NOT NULL DEFAULT '',
+//   supplier TEXT NOT NULL DEFAULT '',
+//   created_by TEXT NOT NULL,
+//   created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+// );
+//
+// CREATE TABLE IF NOT EXISTS serial_manifest_lines (
+//   id BIGSERIAL PRIMARY KEY,
+//   manifest_id BIGINT NOT NULL REFERENCES serial_manifests(id) ON DELETE CASCADE,
+//   serial_number TEXT NOT NULL UNIQUE,
+//   sku TEXT,                                 -- NULL = any SKU
+//   outerbox_id TEXT                          -- NULL = any OuterBox of the manifest's PO
+// );
+//
+// CREATE INDEX IF NOT EXISTS serial_manifest_lines_outerbox_idx ON serial_manifest_lines (outerbox_id);
+// ====================================================
+const MANIFEST_POLICIES = ["WARN", "BLOCK"];
+const MANIFEST_POLICY = MANIFEST_POLICIES.includes(toUpperText(process.env.SERIAL_MANIFEST_POLICY))
+  ? toUpperText(process.env.SERIAL_MANIFEST_POLICY)
+  : "WARN";
+
+// normalized CSV header -> field
+const MANIFEST_CSV_FIELDS = {
+  manifestref: "manifestRef",
+  manifest: "manifestRef",
+  reference: "manifestRef",
+  ponumber: "poNumber",
+  po: "poNumber",
+  supplier: "supplier",
+  outerboxid: "outerBoxId",
+  outerbox: "outerBoxId",
+  serialnumber: "serialNumber",
+  serial: "serialNumber",
+  sku: "sku",
+};
+
+// SQL condition: manifest line l (of manifest m) covers the OuterBox in parameter p
+const manifestLineCovers = (p) => `
+  (l.outerbox_id = ${p} OR (
+    l.outerbox_id IS NULL AND m.po_number <> '' AND m.po_number IN (
+      SELECT a.po_number FROM asn_lines al JOIN asns a ON a.id = al.asn_id WHERE al.outerbox_id = ${p}
+    )
+  ))
+`;
+
+// CSV text or JSON body -> flat list of { manifestRef, poNumber, supplier, outerBoxId, serialNumber, sku }
+function readManifestRows(req) {
+  const defaults = {
+    manifestRef: toText(req.query.manifestRef),
+    poNumber: toText(req.query.poNumber),
+    supplier: toText(req.query.supplier),
+    outerBoxId: toText(req.query.outerBoxId),
+  };
+
+  if (typeof req.body === "string") {
+    const [header, ...data] = parseCsv(req.body);
+    if (!header) return { error: "CSV is empty." };
+
+    const fields = header.map((h) => MANIFEST_CSV_FIELDS[toText(h).toLowerCase().replace(/[^a-z]/g, "")]);
+    if (!fields.includes("serialNumber")) return { error: "CSV is missing the serialNumber column." };
+
+    return {
+      rows: data.map((cells) => {
+        const row = { ...defaults };
+        fields.forEach((f, i) => { if (f && toText(cells[i])) row[f] = toText(cells[i]); });
+        return row;
+      }),
+    };
+  }
 
-  if (!outer || !inner) {
-    return res.status(400).json({ error: "outerBoxId and innerBoxId are required." });
+  // JSON: one manifest { manifestRef, outerBoxId?, poNumber?, supplier?, serials: ["SN", { serialNumber, sku?, outerBoxId? }] },
+  // or { manifests: [...] }, or an array of manifests
+  const body = req.body;
+  const manifests = Array.isArray(body) ? body : Array.isArray(body?.manifests) ? body.manifests : body ? [body] : [];
+  const rows = [];
+  for (const m of manifests) {
+    const serials = Array.isArray(m?.serials) ? m.serials : [];
+    for (const s of serials) {
+      const entry = typeof s === "object" && s ? s : { serialNumber: s };
+      rows.push({
+        manifestRef: toText(m.manifestRef) || defaults.manifestRef,
+        poNumber: toText(m.poNumber) || defaults.poNumber,
+        supplier: toText(m.supplier) || defaults.supplier,
+        outerBoxId: toText(entry.outerBoxId) || toText(m.outerBoxId) || defaults.outerBoxId,
+        serialNumber: toText(entry.serialNumber),
+        sku: toText(entry.sku),
+      });
+    }
+  }
+  return { rows };
+}
+
+// Scan into an OuterBox -> null when no manifest covers the box or the serial matches it,
+// otherwise { status: NOT_IN_MANIFEST | OTHER_OUTERBOX | SKU_MISMATCH, message }
+async function manifestMismatch(db, outerBoxId, serialNumber, sku) {
+  const covered = await db.query(
+    `
+    SELECT 1
+    FROM serial_manifest_lines l
+    JOIN serial_manifests m ON m.id = l.manifest_id
+    WHERE ${manifestLineCovers("$1")}
+    LIMIT 1
+    `,
+    [outerBoxId]
+  );
+  if (!covered.rows.length) return null;
+
+  const r = await db.query(
+    `
+    SELECT l.sku, l.outerbox_id, m.manifest_ref, ${manifestLineCovers("$2")} AS covers
+    FROM serial_manifest_lines l
+    JOIN serial_manifests m ON m.id = l.manifest_id
+    WHERE l.serial_number = $1
+    `,
+    [serialNumber, outerBoxId]
+  );
+  const line = r.rows[0];
+
+  if (!line) {
+    return { status: "NOT_IN_MANIFEST", message: `Serial ${serialNumber} is not in the supplier manifest for OuterBox ${outerBoxId}.` };
+  }
+  if (!line.covers) {
+    const where = line.outerbox_id ? `OuterBox ${line.outerbox_id}` : `manifest ${line.manifest_ref}`;
+    return { status: "OTHER_OUTERBOX", message: `Serial ${serialNumber} is listed for ${where}, not OuterBox ${outerBoxId}.` };
   }
-  if (!packedBy) {
-    return res.status(400).json({ error: "packedBy (operator username) is required." });
+  if (line.sku && toUpperText(line.sku) !== sku) {
+    return { status: "SKU_MISMATCH", message: `Serial ${serialNumber} is listed as SKU ${line.sku}, scanned as ${sku}.` };
+  }
+  return null;
+}
+
+// OuterBoxes a manifest covers (its lines' boxes + the boxes on ASNs of its PO) with their status
+async function manifestOuterboxes(db, manifest) {
+  const r = await db.query(
+    `
+    SELECT b.outerbox_id AS "outerBoxId", COALESCE(o.status, 'NOT_STARTED') AS status
+    FROM (
+      SELECT outerbox_id FROM serial_manifest_lines WHERE manifest_id = $1 AND outerbox_id IS NOT NULL
+      UNION
+      SELECT al.outerbox_id
+      FROM asn_lines al
+      JOIN asns a ON a.id = al.asn_id
+      WHERE $2::text <> '' AND a.po_number = $2
+    ) b
+    LEFT JOIN outer_box_sessions o ON o.outerbox_id = b.outerbox_id
+    ORDER BY b.outerbox_id
+    `,
+    [manifest.id, manifest.poNumber]
+  );
+  return r.rows;
+}
+
+const MANIFEST_COLUMNS = `
+  m.id,
+  m.manifest_ref AS "manifestRef",
+  m.outerbox_id AS "outerBoxId",
+  m.po_number AS "poNumber",
+  m.supplier,
+  m.created_by AS "createdBy",
+  m.created_at AS "createdAt"
+`;
+
+// Manifest header + missing/received serials; final once every covered OuterBox is CLOSED.
+// A serial received into an OuterBox the manifest does not list it for is reported as wrongBox, not received.
+async function loadManifestReport(db, manifestId) {
+  const m = await db.query(`SELECT ${MANIFEST_COLUMNS} FROM serial_manifests m WHERE m.id = $1`, [manifestId]);
+  if (!m.rows.length) return null;
+
+  const manifest = m.rows[0];
+  const outerBoxes = await manifestOuterboxes(db, manifest);
+
+  const lines = await db.query(
+    `
+    SELECT
+      l.serial_number AS "serialNumber",
+      l.sku,
+      l.outerbox_id AS "outerBoxId",
+      i.outerbox_id AS "receivedOuterBoxId",
+      i.innerbox_id AS "receivedInnerBoxId",
+      i.sku AS "receivedSku",
+      i.created_at AS "receivedAt",
+      i.id IS NOT NULL AND COALESCE(${manifestLineCovers("i.outerbox_id")}, false) AS "inListedBox"
+    FROM serial_manifest_lines l
+    JOIN serial_manifests m ON m.id = l.manifest_id
+    LEFT JOIN inbound_items i ON i.serial_number = l.serial_number
+    WHERE l.manifest_id = $1
+    ORDER BY l.outerbox_id NULLS LAST, l.serial_number
+    `,
+    [manifestId]
+  );
+
+  const missing = lines.rows.filter((l) => !l.receivedAt);
+  const wrongBox = lines.rows.filter((l) => l.receivedAt && !l.inListedBox);
+  for (const l of lines.rows) delete l.inListedBox;
+  return {
+    manifest,
+    outerBoxes,
+    final: outerBoxes.length > 0 && outerBoxes.every((o) => o.status === "CLOSED"),
+    missing,
+    wrongBox,
+    totals: {
+      expected: lines.rows.length,
+      received: lines.rows.length - missing.length - wrongBox.length,
+      wrongBox: wrongBox.length,
+      missing: missing.length,
+    },
+  };
+}
+
+// Manifests covering an OuterBox, with their report state (sent back when the box is closed)
+async function manifestsForOuterbox(db, outerBoxId) {
+  const r = await db.query(
+    `
+    SELECT DISTINCT m.id
+    FROM serial_manifest_lines l
+    JOIN serial_manifests m ON m.id = l.manifest_id
+    WHERE ${manifestLineCovers("$1")}
+    ORDER BY m.id
+    `,
+    [outerBoxId]
+  );
+
+  const out = [];
+  for (const row of r.rows) {
+    const report = await loadManifestReport(db, row.id);
+    out.push({
+      id: Number(row.id),
+      manifestRef: report.manifest.manifestRef,
+      final: report.final,
+      missing: report.totals.missing,
+      wrongBox: report.totals.wrongBox,
+      expected: report.totals.expected,
+    });
   }
+  return out;
+}
+
+const MISSING_REPORT_HEADERS = [
+  ["status", "Status"],
+  ["serialNumber", "Serial Number"],
+  ["sku", "SKU"],
+  ["outerBoxId", "Outer Box"],
+  ["receivedOuterBoxId", "Received In Outer Box"],
+  ["receivedInnerBoxId", "Received In Inner Box"],
+];
+
+// ----------------------------------------------------
+// ADMIN: upload supplier serial manifests
+// POST /api/admin/serial-manifests?replace=1
+// body: text/csv (manifest_ref, po_number, supplier, outerbox_id, serial_number, sku)
+//   or JSON { manifestRef, outerBoxId?, poNumber?, supplier?, serials: ["SN" | { serialNumber, sku?, outerBoxId? }] }
+// ?manifestRef / ?outerBoxId / ?poNumber / ?supplier fill in columns missing from the file
+// ----------------------------------------------------
+app.post("/api/admin/serial-manifests", requireRole("supervisor"), async (req, res) => {
+  const replace = ["1", "true"].includes(toText(req.query.replace).toLowerCase());
+
+  const parsed = readManifestRows(req);
+  if (parsed.error) return res.status(400).json({ error: parsed.error });
+  if (!parsed.rows.length) return res.status(400).json({ error: "No serials found." });
+
+  // validate + group by manifest reference
+  const manifests = new Map();
+  const seenSerials = new Set();
+  const errors = [];
+
+  parsed.rows.forEach((row, idx) => {
+    const at = `line ${idx + 1}`;
+    const manifestRef = toText(row.manifestRef);
+    const serialNumber = toUpperText(row.serialNumber);
+    const outerBoxId = toText(row.outerBoxId);
+    const poNumber = toText(row.poNumber);
+
+    if (!manifestRef) return errors.push(`${at}: manifestRef is required.`);
+    if (!serialNumber) return errors.push(`${at}: serialNumber is required.`);
+    if (!outerBoxId && !poNumber) return errors.push(`${at}: outerBoxId or poNumber is required.`);
+    if (seenSerials.has(serialNumber)) return errors.push(`${at}: serial ${serialNumber} is listed twice.`);
+    seenSerials.add(serialNumber);
+
+    if (!manifests.has(manifestRef)) {
+      manifests.set(manifestRef, { manifestRef, poNumber, supplier: toText(row.supplier), lines: [] });
+    }
+    manifests.get(manifestRef).lines.push({ serialNumber, sku: toUpperText(row.sku) || null, outerBoxId: outerBoxId || null });
+  });
+
+  if (errors.length) return res.status(400).json({ error: errors.slice(0, 20).join(" "), errors });
 
   const client = await pool.connect();
   try {
     await client.query("BEGIN");
 
-    // lock session row
-    const s = await client.query(
-      `
-      SELECT *
-      FROM inbound_sessions
-      WHERE outerbox_id = $1 AND innerbox_id = $2
-      FOR UPDATE
-      `,
-      [outer, inner]
-    );
-
-    if (!s.rows.length) {
+    // listed SKUs must be in the master list
+    const skus = [...new Set([...manifests.values()].flatMap((m) => m.lines.map((l) => l.sku)).filter(Boolean))];
+    const known = await client.query(`SELECT sku FROM skus WHERE sku = ANY($1::text[]) AND active = true`, [skus]);
+    const knownSet = new Set(known.rows.map((r) => r.sku));
+    const unknown = skus.filter((x) => !knownSet.has(x));
+    if (unknown.length) {
       await client.query("ROLLBACK");
-      return res.status(404).json({ error: "Session not found in database." });
+      return res.status(400).json({ error: `Invalid SKU(s) not in the SKU master: ${unknown.join(", ")}` });
     }
 
-    const session = s.rows[0];
+    const saved = [];
+    for (const m of manifests.values()) {
+      const boxes = [...new Set(m.lines.map((l) => l.outerBoxId))];
+      const outerBoxId = boxes.length === 1 ? boxes[0] : null;
 
-    // lease expiry logic (same as claim)
-    const lastSeenMs = new Date(session.last_seen).getTime();
-    const leaseExpired = Date.now() - lastSeenMs > LEASE_MS;
+      const existing = await client.query(`SELECT id FROM serial_manifests WHERE manifest_ref = $1 FOR UPDATE`, [
+        m.manifestRef,
+      ]);
 
-    // allow delete if same locker OR lease expired
-    if (toText(session.locked_by) !== packedBy && !leaseExpired) {
-      await client.query("ROLLBACK");
-      return res.status(409).json({
-        error: `InnerBox is in progress by "${session.locked_by}". Cannot delete until lease expires.`,
-        lockedBy: session.locked_by,
-      });
-    }
+      let manifestId;
+      if (existing.rows.length) {
+        if (!replace) {
+          await client.query("ROLLBACK");
+          return res.status(409).json({ error: `Manifest ${m.manifestRef} already exists. Upload with replace to overwrite it.` });
+        }
+        manifestId = existing.rows[0].id;
+        await client.query(
+          `UPDATE serial_manifests SET outerbox_id = $2, po_number = $3, supplier = $4 WHERE id = $1`,
+          [manifestId, outerBoxId, m.poNumber, m.supplier]
+        );
+        await client.query(`DELETE FROM serial_manifest_lines WHERE manifest_id = $1`, [manifestId]);
+      } else {
+        const created = await client.query(
+          `
+          INSERT INTO serial_manifests (manifest_ref, outerbox_id, po_number, supplier, created_by)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING id
+          `,
+          [m.manifestRef, outerBoxId, m.poNumber, m.supplier, req.user.username]
+        );
+        manifestId = created.rows[0].id;
+      }
 
-    // delete items
-    const delItems = await client.query(
-      `DELETE FROM inbound_items WHERE session_id = $1`,
-      [session.id]
-    );
+      await client.query(
+        `
+        INSERT INTO serial_manifest_lines (manifest_id, serial_number, sku, outerbox_id)
+        SELECT $1, x.serial_number, x.sku, x.outerbox_id
+        FROM unnest($2::text[], $3::text[], $4::text[]) AS x(serial_number, sku, outerbox_id)
+        `,
+        [manifestId, m.lines.map((l) => l.serialNumber), m.lines.map((l) => l.sku), m.lines.map((l) => l.outerBoxId)]
+      );
 
-    // delete session
-    const delSession = await client.query(
-      `DELETE FROM inbound_sessions WHERE id = $1`,
-      [session.id]
-    );
+      saved.push({ id: Number(manifestId), manifestRef: m.manifestRef, serials: m.lines.length });
+    }
 
     await client.query("COMMIT");
-
-    return res.json({
-      ok: true,
-      sessionId: session.id,
-      status: session.status,
-      deletedItems: delItems.rowCount,
-      deletedSession: delSession.rowCount,
-    });
+    res.status(201).json({ ok: true, manifests: saved });
   } catch (e) {
     await client.query("ROLLBACK");
-    return res.status(500).json({ error: "Server error", details: e.message });
+    if (e.code === "23505") {
+      return res.status(409).json({ error: "A serial in this upload is already listed on another manifest.", details: e.detail });
+    }
+    res.status(500).json({ error: "Server error", details: e.message });
   } finally {
     client.release();
   }
 });
 
+// ----------------------------------------------------
+// ADMIN: list manifests with received totals
+// GET /api/admin/serial-manifests
+// ----------------------------------------------------
+app.get("/api/admin/serial-manifests", requireRole("supervisor"), async (req, res) => {
+  try {
+    const r = await pool.query(
+      `
+      SELECT
+        ${MANIFEST_COLUMNS},
+        COUNT(l.id)::int AS "serials",
+        COUNT(i.id) FILTER (WHERE COALESCE(${manifestLineCovers("i.outerbox_id")}, false))::int AS "received",
+        COUNT(i.id) FILTER (WHERE NOT COALESCE(${manifestLineCovers("i.outerbox_id")}, false))::int AS "wrongBox"
+      FROM serial_manifests m
+      LEFT JOIN serial_manifest_lines l ON l.manifest_id = m.id
+      LEFT JOIN inbound_items i ON i.serial_number = l.serial_number
+      GROUP BY m.id
+      ORDER BY m.created_at DESC
+      `
+    );
+    res.json({ policy: MANIFEST_POLICY, manifests: r.rows });
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ----------------------------------------------------
+// ADMIN: missing-from-delivery report for one manifest
+// GET /api/admin/serial-manifests/:id/missing?format=json|csv
+// final: every OuterBox the manifest covers is CLOSED (before that the report is provisional)
+// csv: MISSING and WRONG_OUTERBOX rows
+// ----------------------------------------------------
+app.get("/api/admin/serial-manifests/:id/missing", requireRole("supervisor"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  const format = toText(req.query.format).toLowerCase() || "json";
+  if (!id) return res.status(400).json({ error: "Invalid manifest id" });
+
+  try {
+    const report = await loadManifestReport(pool, id);
+    if (!report) return res.status(404).json({ error: "Manifest not found" });
+
+    if (format !== "csv") return res.json(report);
+
+    const rows = [
+      ...report.missing.map((row) => ({ ...row, status: "MISSING" })),
+      ...report.wrongBox.map((row) => ({ ...row, status: "WRONG_OUTERBOX" })),
+    ];
+    const csv = [MISSING_REPORT_HEADERS.map(([, label]) => csvCell(label)).join(",")]
+      .concat(rows.map((row) => MISSING_REPORT_HEADERS.map(([key]) => csvCell(row[key])).join(",")))
+      .join("\r\n");
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${safeFilename(`missing-${report.manifest.manifestRef}.csv`)}"`);
+    res.send(csv + "\r\n");
+  } catch (e) {
+    res.status(500).json({ error: "Server error", details: e.message });
+  }
+});
+
+// ADMIN: remove a manifest (scans are kept)
+// DELETE /api/admin/serial-manifests/:id
+app.delete("/api/admin/serial-manifests/:id", requireRole("admin"), async (req, res) => {
+  const id = toInt(req.params.id, 0);
+  if (!id) return res.status(400).json({ error: "Invalid manifest id" });
+
+  const r = await pool.query(`DELETE FROM serial_manifests WHERE id = $1`, [id]);
+  if (!r.rowCount) return res.status(404).json({ error: "Manifest not found" });
+  res.json({ ok: true });
+});
 
 // ----------------------------------------------------
 const port = process.env.PORT || 4000;
 app.listen(port, () => console.log(`✅ API running: http://localhost:${port}`));
 
-app.post("/api/inbounds/sessions/:id/reset", async (req, res) => {
+app.post("/api/inbounds/sessions/:id/reset", requireRole("operator"), async (req, res) => {
   const id = Number(req.params.id);
-  const packedBy = String(req.body?.packedBy || "").trim();
+  const packedBy = req.user.username;
 
   if (!id) return res.status(400).json({ error: "Invalid session id" });
-  if (!packedBy) return res.status(400).json({ error: "packedBy required" });
 
   const client = await pool.connect();
   try {
@@ -920,10 +5815,9 @@ app.post("/api/inbounds/sessions/:id/reset", async (req, res) => {
     }
 
     // ✅ delete all scanned items for this session
-    const del = await client.query(
-      `DELETE FROM inbound_items WHERE session_id = $1`,
-      [id]
-    );
+    const deletedItems = await deleteSessionItems(client, id);
+    // exceptions recorded during this scan go too (resolved ones stay for the record)
+    await client.query(`DELETE FROM inbound_exceptions WHERE session_id = $1 AND status = 'QUARANTINED'`, [id]);
 
     // ✅ abandon the session (so it won’t resume)
     await client.query(
@@ -935,9 +5829,16 @@ app.post("/api/inbounds/sessions/:id/reset", async (req, res) => {
   [id]
 );
 
+    await writeAudit(client, req.user, "SESSION_RESET", {
+      session,
+      serials: deletedItems.map((r) => r.serial_number),
+      before: { session: sessionSnapshot(session), items: deletedItems.map(itemSnapshot) },
+      after: { status: "ABANDONED", lockedSku: null },
+    });
 
     await client.query("COMMIT");
-    res.json({ ok: true, deletedItems: del.rowCount });
+    notifyDashboard();
+    res.json({ ok: true, deletedItems: deletedItems.length });
   } catch (e) {
     await client.query("ROLLBACK");
     res.status(500).json({ error: "Server error", details: e.message });
@@ -950,7 +5851,7 @@ app.post("/api/inbounds/sessions/:id/reset", async (req, res) => {
 // ADMIN: Get one package (session + items)
 // GET /api/admin/inbounds/sessions/:id
 // ----------------------------------------------------
-app.get("/api/admin/inbounds/sessions/:id", requireAdmin, async (req, res) => {
+app.get("/api/admin/inbounds/sessions/:id", requireRole("supervisor"), async (req, res) => {
   const id = Number(req.params.id);
   if (!id) return res.status(400).json({ error: "Invalid session id" });
 
@@ -962,9 +5863,13 @@ app.get("/api/admin/inbounds/sessions/:id", requireAdmin, async (req, res) => {
       innerbox_id AS "innerBoxId",
       expected_qty AS "expectedQty",
       status,
+      mode,
+      locked_by AS "lockedBy",
       locked_sku AS "lockedSku",
       confirmed_at AS "confirmedAt",
-      locked_at AS "lockedAt"
+      locked_at AS "lockedAt",
+      last_seen AS "lastSeen",
+      stale_reason AS "staleReason"
     FROM inbound_sessions
     WHERE id = $1
     `,
@@ -973,6 +5878,9 @@ app.get("/api/admin/inbounds/sessions/:id", requireAdmin, async (req, res) => {
 
   if (!s.rows.length) return res.status(404).json({ error: "Session not found" });
 
+  const lines = s.rows[0].mode === "MIXED" ? await loadSessionLines(pool, id) : [];
+  const reopens = await loadSessionReopens(pool, id);
+
   const items = await pool.query(
     `
     SELECT
@@ -980,6 +5888,8 @@ app.get("/api/admin/inbounds/sessions/:id", requireAdmin, async (req, res) => {
       sku,
       serial_number AS "serialNumber",
       packed_by AS "packedBy",
+      entry_method AS "entryMethod",
+      sku_entry_method AS "skuEntryMethod",
       created_at AS "createdAt"
     FROM inbound_items
     WHERE session_id = $1
@@ -988,18 +5898,40 @@ app.get("/api/admin/inbounds/sessions/:id", requireAdmin, async (req, res) => {
     [id]
   );
 
-  res.json({ session: s.rows[0], items: items.rows });
+  res.json({ session: s.rows[0], items: items.rows, lines, reopens });
 });
 
 
 // ----------------------------------------------------
-// ADMIN: Delete an item by id (remove wrong scan)
+// ADMIN: Delete an item by id (remove wrong scan) -> recycle bin
 // DELETE /api/admin/inbounds/items/:id
+// body: { reason? }
 // ----------------------------------------------------
-app.delete("/api/admin/inbounds/items/:id", requireAdmin, async (req, res) => {
+app.delete("/api/admin/inbounds/items/:id", requireRole("supervisor"), async (req, res) => {
   const id = Number(req.params.id);
   if (!id) return res.status(400).json({ error: "Invalid item id" });
 
-  const r = await pool.query(`DELETE FROM inbound_items WHERE id = $1`, [id]);
-  res.json({ ok: true, deleted: r.rowCount });
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const r = await client.query(`DELETE FROM inbound_items WHERE id = $1 RETURNING *`, [id]);
+    if (r.rows.length) {
+      await binItem(client, r.rows[0], req.user, toText(req.body?.reason));
+      await writeAudit(client, req.user, "ITEM_DELETE", {
+        session: itemSessionRef(r.rows[0]),
+        itemId: id,
+        serials: [r.rows[0].serial_number],
+        before: itemSnapshot(r.rows[0]),
+      });
+    }
+
+    await client.query("COMMIT");
+    res.json({ ok: true, deleted: r.rowCount });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    res.status(500).json({ error: "Server error", details: e.message });
+  } finally {
+    client.release();
+  }
 });
@@ -28,6 +28,12 @@ export default defineNuxtConfig({
   pwa: {
     registerType: 'autoUpdate',
 
+    // app shell must load with no network so scans can be queued offline (IndexedDB)
+    workbox: {
+      navigateFallback: '/',
+      globPatterns: ['**/*.{js,css,html,png,svg,ico,json,woff2}'],
+    },
+
     manifest: {
       name: 'Inbound Inventory',
       short_name: 'Inbound',
@@ -1,122 +1,810 @@
 import axios from "axios";
+import type { SerialRules } from "../../utils/serialRules";
+import type { WorkflowPolicy, WorkflowRules } from "../../utils/workflowPolicy";
+import type { EntryField, EntryMethod, EntryPolicy } from "../../utils/entryDetector";
 
 export const api = axios.create({
   baseURL: "http://192.168.50.6:4000/api", // <-- your laptop IP
   headers: { "Content-Type": "application/json" },
 });
 
+// ----------------------------------------------------
+// Login token (sent as "Authorization: Bearer ..." on every request)
+// ----------------------------------------------------
+const TOKEN_KEY = "inbound.authToken";
+const OPERATOR_KEY = "inbound.authOperator"; // identity of the token, used while the server is unreachable
+
+export function getAuthToken(): string {
+  if (typeof localStorage === "undefined") return "";
+  return localStorage.getItem(TOKEN_KEY) || "";
+}
+
+// An empty token clears the stored identity too
+export function setAuthToken(token: string, operator: AuthOperator | null = null) {
+  if (typeof localStorage === "undefined") return;
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+
+  if (token && operator) localStorage.setItem(OPERATOR_KEY, JSON.stringify(operator));
+  else if (!token) localStorage.removeItem(OPERATOR_KEY);
+}
+
+export function getAuthOperator(): AuthOperator | null {
+  if (typeof localStorage === "undefined" || !getAuthToken()) return null;
+  try {
+    const op = JSON.parse(localStorage.getItem(OPERATOR_KEY) || "null");
+    return op?.username ? op : null;
+  } catch {
+    return null;
+  }
+}
+
+let onUnauthorized: (() => void) | null = null;
+
+// Called when the backend rejects the token (expired, revoked, account disabled)
+export function setUnauthorizedHandler(fn: (() => void) | null) {
+  onUnauthorized = fn;
+}
+
+api.interceptors.request.use((config) => {
+  const token = getAuthToken();
+  if (token) config.headers.set("Authorization", `Bearer ${token}`);
+  return config;
+});
+
+api.interceptors.response.use(
+  (res) => res,
+  (err) => {
+    const url = String(err?.config?.url || "");
+    if (err?.response?.status === 401 && !url.startsWith("/auth/login")) onUnauthorized?.();
+    return Promise.reject(err);
+  }
+);
+
+export type OperatorRole = "operator" | "supervisor" | "admin";
+
+export type AuthOperator = {
+  id: number;
+  username: string;
+  displayName: string;
+  role: OperatorRole;
+};
+
+export async function login(payload: { username: string; pin: string } | { badge: string }) {
+  return api.post<{ token: string; expiresAt: string; operator: AuthOperator }>("/auth/login", payload);
+}
+
+export async function logout() {
+  return api.post("/auth/logout");
+}
+
+export async function fetchMe() {
+  return api.get<{ operator: AuthOperator }>("/auth/me");
+}
+
+
+export type SessionMode = "SINGLE" | "MIXED";
+
+// One expected SKU/qty line of a MIXED InnerBox
+export type BoxLine = {
+  sku: string;
+  expectedQty: number;
+  scannedQty?: number;
+};
 
 export type ClaimSessionPayload = {
   outerBoxId: string;
   innerBoxId: string;
   expectedQty: number;
-  packedBy: string;
+  lines?: BoxLine[]; // MIXED: expectedQty is ignored, the server sums the lines
 };
 
 export async function claimSession(payload: ClaimSessionPayload) {
   return api.post("/inbounds/sessions/claim", payload);
 }
 
-export async function heartbeat(sessionId: number, packedBy: string) {
-  return api.post(`/inbounds/sessions/${sessionId}/heartbeat`, { packedBy });
+export async function heartbeat(sessionId: number) {
+  return api.post<{ ok: boolean; leaseMs: number }>(`/inbounds/sessions/${sessionId}/heartbeat`);
 }
 
 export type CreateInboundItemPayload = {
   sessionId: number;
   sku: string;
   serialNumber: string;
-  packedBy: string;
+  scanId?: string; // client id per physical scan; a retry with the same id returns the first result
+  batchNo?: number;
+  entryMethod?: EntryMethod; // how the serial was entered
+  skuEntryMethod?: EntryMethod;
 };
 
+// serial not matching the supplier manifest (policy WARN; BLOCK answers 409 instead)
+export type ManifestStatus = "NOT_IN_MANIFEST" | "OTHER_OUTERBOX" | "SKU_MISMATCH";
+
 export async function createInboundItem(payload: CreateInboundItemPayload) {
-  return api.post("/inbounds/items", payload);
+  return api.post<{
+    id: number;
+    batchNo: number;
+    replayed?: boolean;
+    manifestStatus?: ManifestStatus;
+    manifestWarning?: string;
+  }>("/inbounds/items", payload);
 }
 
-export async function completeSession(sessionId: number, packedBy: string) {
-  return api.post(`/inbounds/sessions/${sessionId}/complete`, { packedBy });
+// Exception units (damaged, no label, unreadable serial, ...) count toward expectedQty
+// and stay in quarantine until a supervisor resolves them
+export const EXCEPTION_REASONS = ["DAMAGED", "MISSING_LABEL", "UNREADABLE_SERIAL", "WRONG_ITEM", "OTHER"] as const;
+export type ExceptionReason = (typeof EXCEPTION_REASONS)[number];
+
+export const EXCEPTION_RESOLUTIONS = ["RESTOCK", "RETURN_TO_VENDOR", "SCRAP", "REWORK"] as const;
+export type ExceptionResolution = (typeof EXCEPTION_RESOLUTIONS)[number];
+
+export type InboundException = {
+  id: number;
+  sessionId: number | null;
+  outerBoxId: string;
+  innerBoxId: string;
+  sku: string | null;
+  serialNumber: string | null;
+  reasonCode: ExceptionReason;
+  note: string | null;
+  status: "QUARANTINED" | "RESOLVED";
+  recordedBy: string;
+  recordedAt: string;
+  resolution: ExceptionResolution | null;
+  resolutionNote: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  photoIds: number[];
+};
+
+export type RecordExceptionPayload = {
+  reasonCode: ExceptionReason;
+  sku?: string;
+  serialNumber?: string;
+  note?: string; // required for OTHER
+  photos?: string[]; // image data URLs, max 3
+};
+
+export async function recordException(sessionId: number, payload: RecordExceptionPayload) {
+  return api.post<{ ok: true; exception: InboundException }>(`/inbounds/sessions/${sessionId}/exceptions`, payload);
 }
 
-export async function abandonSession(sessionId: number, packedBy: string) {
-  return api.post(`/inbounds/sessions/${sessionId}/abandon`, { packedBy });
+export async function removeException(sessionId: number, exceptionId: number) {
+  return api.delete(`/inbounds/sessions/${sessionId}/exceptions/${exceptionId}`);
 }
 
-export async function resetSession(sessionId: number, packedBy: string) {
-  return api.post(`/inbounds/sessions/${sessionId}/reset`, { packedBy });
+// Site-wide batch / double-scan policy (per-SKU overrides come with the SKU master)
+export async function fetchWorkflowPolicy() {
+  return api.get<{ policy: WorkflowPolicy; maxBatchSize: number }>("/inbounds/workflow-policy");
 }
 
-export async function validateSku(sessionId: number, sku: string, packedBy: string) {
-  return api.post(`/inbounds/sessions/${sessionId}/validate-sku`, { sku, packedBy });
+// Per-field policy for typed (not scanned) entries
+export async function fetchEntryPolicy() {
+  return api.get<{ policy: Record<EntryField, EntryPolicy> }>("/inbounds/entry-policy");
 }
 
-export async function adminListSessions(adminPassword: string) {
-  return api.get("/admin/inbounds/sessions", {
-    headers: { "x-admin-password": adminPassword }
-  });
+export async function confirmBatch(sessionId: number, batchNo: number) {
+  return api.post<{ ok: boolean; batch: { batchNo: number; status: string; items: number }; nextBatchNo: number }>(
+    `/inbounds/sessions/${sessionId}/batches/${batchNo}/confirm`
+  );
 }
 
-export async function adminGetSession(adminPassword: string, sessionId: number) {
-  return api.get(`/admin/inbounds/sessions/${sessionId}`, {
-    headers: { "x-admin-password": adminPassword }
-  });
+export async function completeSession(sessionId: number) {
+  return api.post(`/inbounds/sessions/${sessionId}/complete`);
+}
+
+export async function abandonSession(sessionId: number) {
+  return api.post(`/inbounds/sessions/${sessionId}/abandon`);
+}
+
+export async function resetSession(sessionId: number) {
+  return api.post(`/inbounds/sessions/${sessionId}/reset`);
+}
+
+export async function validateSku(sessionId: number, sku: string) {
+  return api.post(`/inbounds/sessions/${sessionId}/validate-sku`, { sku });
+}
+
+export async function adminListSessions() {
+  return api.get("/admin/inbounds/sessions");
+}
+
+export async function adminGetSession(sessionId: number) {
+  return api.get(`/admin/inbounds/sessions/${sessionId}`);
 }
 
 export async function adminUpdateSession(
-  adminPassword: string,
   sessionId: number,
   payload: { expectedQty?: number; clearLockedSku?: boolean }
 ) {
-  return api.patch(`/admin/inbounds/sessions/${sessionId}`, payload, {
-    headers: { "x-admin-password": adminPassword }
-  });
+  return api.patch(`/admin/inbounds/sessions/${sessionId}`, payload);
 }
 
-export async function adminDeleteItem(adminPassword: string, itemId: number) {
-  return api.delete(`/admin/inbounds/items/${itemId}`, {
-    headers: { "x-admin-password": adminPassword }
-  });
+// Supervisor: hand the InnerBox lock to another operator (scanned items stay)
+export async function adminTakeoverSession(sessionId: number, payload: { toOperator: string; reason?: string }) {
+  return api.post(`/admin/inbounds/sessions/${sessionId}/takeover`, payload);
+}
+
+// Supervisor: reopen a CONFIRMED InnerBox for amendment; it must be confirmed again
+export const REOPEN_REASONS = [
+  "WRONG_QTY",
+  "WRONG_SKU",
+  "MISSING_ITEM",
+  "EXTRA_ITEM",
+  "DAMAGED",
+  "CUSTOMER_REQUEST",
+  "OTHER",
+] as const;
+export type ReopenReason = (typeof REOPEN_REASONS)[number];
+
+export type SessionReopen = {
+  id: number;
+  reasonCode: ReopenReason;
+  note: string | null;
+  reopenedBy: string;
+  assignedTo: string;
+  reopenedAt: string;
+  previousConfirmedAt: string | null;
+  reconfirmedBy: string | null;
+  reconfirmedAt: string | null;
+};
+
+export async function adminReopenSession(
+  sessionId: number,
+  payload: { reasonCode: ReopenReason; note?: string; assignTo: string }
+) {
+  return api.post<{ ok: true; outerBoxReopened: boolean; reopens: SessionReopen[] }>(
+    `/admin/inbounds/sessions/${sessionId}/reopen`,
+    payload
+  );
+}
+
+// Move / split / merge between InnerBoxes (both sides re-checked: status, locked SKU, expected qty)
+export type TransferResult = { ok: true; moved: number; fromSessionId: number; toSessionId: number };
+
+export async function adminMoveItems(payload: { itemIds: number[]; toSessionId: number }) {
+  return api.post<TransferResult>("/admin/inbounds/items/move", payload);
+}
+
+export async function adminSplitSession(
+  sessionId: number,
+  payload: { itemIds: number[]; innerBoxId: string; outerBoxId?: string }
+) {
+  return api.post<TransferResult>(`/admin/inbounds/sessions/${sessionId}/split`, payload);
+}
+
+// The emptied source InnerBox goes to the recycle bin
+export async function adminMergeSession(sessionId: number, fromSessionId: number) {
+  return api.post<TransferResult>(`/admin/inbounds/sessions/${sessionId}/merge`, { fromSessionId });
+}
+
+// Deletes are soft: the item/InnerBox goes to the recycle bin with the reason
+export async function adminDeleteItem(itemId: number, reason?: string) {
+  return api.delete(`/admin/inbounds/items/${itemId}`, { data: { reason } });
 }
 
 export async function adminUpdateItem(
-  adminPassword: string,
   itemId: number,
   payload: { sku?: string; serialNumber?: string }
 ) {
-  return api.patch(`/admin/inbounds/items/${itemId}`, payload, {
-    headers: { "x-admin-password": adminPassword }
-  });
+  return api.patch(`/admin/inbounds/items/${itemId}`, payload);
 }
 
-export function adminDeleteSession(adminPw: string, sessionId: number) {
-  return api.delete(`/admin/inbounds/sessions/${sessionId}`, {
-    headers: { "x-admin-password": adminPw },
-  });
+export function adminDeleteSession(sessionId: number, reason?: string) {
+  return api.delete(`/admin/inbounds/sessions/${sessionId}`, { data: { reason } });
 }
 
 export function deleteSessionByBox(payload: {
   outerBoxId: string;
   innerBoxId: string;
-  packedBy: string;
+  reason?: string;
 }) {
   // ✅ correct: uses backend baseURL (http://192.168.50.6:4000/api)
   return api.post("/inbounds/sessions/delete-by-box", payload);
 }
 
+// ----------------------------
+// Recycle bin (soft-deleted InnerBoxes and items)
+// ----------------------------
+export type RecycleBinKind = "SESSION" | "ITEM";
+
+export type RecycleBinEntry = {
+  id: number;
+  kind: RecycleBinKind;
+  sessionId: number | null;
+  outerBoxId: string | null;
+  innerBoxId: string | null;
+  serialNumbers: string[];
+  sessionStatus: string | null;
+  merged: boolean; // emptied by a merge; its expected qty moved with it, so it cannot be restored
+  deletedBy: string;
+  deletedAt: string;
+  reason: string | null;
+  restoredBy: string | null;
+  restoredAt: string | null;
+};
+
+export async function adminListRecycleBin(filters: { kind?: RecycleBinKind; q?: string; includeRestored?: boolean } = {}) {
+  return api.get<RecycleBinEntry[]>("/admin/recycle-bin", {
+    params: {
+      kind: filters.kind,
+      q: filters.q,
+      includeRestored: filters.includeRestored ? 1 : undefined,
+    },
+  });
+}
+
+// 409 when a serial was received again or the InnerBox was started again since the delete
+export async function adminRestoreBinEntry(entryId: number) {
+  return api.post<{ ok: true; kind: RecycleBinKind; sessionId: number; restoredItems: number }>(
+    `/admin/recycle-bin/${entryId}/restore`
+  );
+}
+
+// ----------------------------
+// Quarantine (exception units awaiting a decision)
+// ----------------------------
+export async function adminListExceptions(filters: { status?: InboundException["status"]; q?: string } = {}) {
+  return api.get<{ reasons: ExceptionReason[]; resolutions: ExceptionResolution[]; exceptions: InboundException[] }>(
+    "/admin/exceptions",
+    { params: { status: filters.status, q: filters.q } }
+  );
+}
+
+export async function adminGetExceptionPhoto(exceptionId: number, photoId: number) {
+  return api.get<Blob>(`/admin/exceptions/${exceptionId}/photos/${photoId}`, { responseType: "blob" });
+}
+
+export async function adminResolveException(
+  exceptionId: number,
+  payload: { resolution: ExceptionResolution; note?: string }
+) {
+  return api.post<{ ok: true; exception: InboundException }>(`/admin/exceptions/${exceptionId}/resolve`, payload);
+}
+
 export function deleteBatchItems(payload: {
   sessionId: number;
-  packedBy: string;
-  serialNumbers: string[];
+  batchNo?: number;
+  serialNumbers?: string[];
 }) {
   return api.post("/inbounds/items/delete-batch", payload);
 }
 
 export async function deleteInboundItems(
   sessionId: number | string,
-  packedBy: string,
   serialNumbers: string[]
 ) {
   return api.post("/inbounds/items/delete-batch", {
     sessionId: Number(sessionId),
-    packedBy,
     serialNumbers,
   });
-}
\ No newline at end of file
+}
+// ----------------------------------------------------
+// Audit log (append-only history of item / session changes)
+// ----------------------------------------------------
+export type AuditEntry = {
+  id: number;
+  createdAt: string;
+  actor: string;
+  actorRole: string | null;
+  action: string;
+  sessionId: number | null;
+  outerBoxId: string | null;
+  innerBoxId: string | null;
+  itemId: number | null;
+  serialNumbers: string[];
+  before: Record<string, unknown> | null; // field snapshot, shape depends on the action
+  after: Record<string, unknown> | null;
+};
+
+export type AuditFilters = {
+  sessionId?: number;
+  serialNumber?: string;
+  outerBoxId?: string;
+  innerBoxId?: string;
+  actor?: string;
+  action?: string;
+  limit?: number;
+};
+
+export async function adminListAudit(filters: AuditFilters) {
+  return api.get<{ actions: string[]; entries: AuditEntry[] }>("/admin/audit", { params: filters });
+}
+
+// ----------------------------------------------------
+// SKU master
+// ----------------------------------------------------
+export type SkuMasterEntry = SerialRules & WorkflowRules & {
+  sku: string;
+  description: string;
+};
+
+export type SkuRow = SkuMasterEntry & {
+  id: number;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export async function fetchSkuMaster(version?: string) {
+  return api.get<{ version: string; unchanged?: boolean; skus?: SkuMasterEntry[] }>("/skus", {
+    params: version ? { version } : {},
+  });
+}
+
+export async function adminListSkus() {
+  return api.get<{ version: string; skus: SkuRow[] }>("/admin/skus");
+}
+
+export async function adminCreateSku(
+  payload: { sku: string; description?: string; active?: boolean } & SerialRules & WorkflowRules
+) {
+  return api.post("/admin/skus", payload);
+}
+
+export async function adminUpdateSku(
+  skuId: number,
+  payload: { sku?: string; description?: string; active?: boolean } & SerialRules & WorkflowRules
+) {
+  return api.patch(`/admin/skus/${skuId}`, payload);
+}
+
+export async function adminDeleteSku(skuId: number) {
+  return api.delete(`/admin/skus/${skuId}`);
+}
+
+// ----------------------------------------------------
+// Operator accounts (admin)
+// ----------------------------------------------------
+export type OperatorRow = AuthOperator & {
+  badgeCode: string | null;
+  active: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+};
+
+export async function adminListOperators() {
+  return api.get<OperatorRow[]>("/admin/operators");
+}
+
+export async function adminCreateOperator(payload: {
+  username: string;
+  displayName?: string;
+  role: OperatorRole;
+  pin: string;
+  badgeCode?: string;
+}) {
+  return api.post("/admin/operators", payload);
+}
+
+export async function adminUpdateOperator(
+  operatorId: number,
+  payload: { displayName?: string; role?: OperatorRole; pin?: string; badgeCode?: string; active?: boolean }
+) {
+  return api.patch(`/admin/operators/${operatorId}`, payload);
+}
+
+// ----------------------------------------------------
+// ASN (advance shipping notice) import + reconciliation
+// ----------------------------------------------------
+export type AsnLineInfo = {
+  asnNumber: string;
+  poNumber: string;
+  outerBoxId: string;
+  innerBoxId: string;
+  sku: string;
+  expectedQty: number;
+};
+
+export type AsnSummary = {
+  id: number;
+  asnNumber: string;
+  poNumber: string;
+  supplier: string;
+  createdBy: string;
+  createdAt: string;
+  innerBoxes: number;
+  outerBoxes: number;
+  expectedQty: number;
+  receivedQty: number;
+};
+
+export type AsnLineStatus = "MATCHED" | "SHORT" | "OVER" | "NOT_RECEIVED" | "WRONG_SKU";
+
+export type AsnReconciliation = {
+  asn: { id: number; asnNumber: string; poNumber: string; supplier: string; createdAt: string };
+  lines: {
+    outerBoxId: string;
+    innerBoxId: string;
+    sku: string;
+    expectedQty: number;
+    receivedQty: number;
+    wrongSkuQty: number;
+    variance: number;
+    sessionId: number | null;
+    sessionStatus: string | null;
+    status: AsnLineStatus;
+  }[];
+  unexpected: {
+    sessionId: number;
+    outerBoxId: string;
+    innerBoxId: string;
+    sessionStatus: string;
+    receivedQty: number;
+    skus: string[];
+  }[];
+  totals: Record<string, number>;
+};
+
+export async function lookupAsn(outerBoxId: string, innerBoxId: string) {
+  return api.get<{ line: AsnLineInfo | null; outerAsns: string[] }>("/inbounds/asn-lookup", {
+    params: { outerBoxId, innerBoxId },
+  });
+}
+
+// CSV files are sent as text/csv, .json files as JSON
+export async function adminUploadAsn(
+  content: string,
+  kind: "csv" | "json",
+  options: { replace?: boolean; asnNumber?: string; poNumber?: string; supplier?: string } = {}
+) {
+  return api.post<{ ok: boolean; asns: { id: number; asnNumber: string; lines: number }[] }>(
+    "/admin/asns",
+    kind === "json" ? JSON.parse(content) : content,
+    {
+      params: { ...options, replace: options.replace ? 1 : undefined },
+      headers: { "Content-Type": kind === "json" ? "application/json" : "text/csv" },
+    }
+  );
+}
+
+export async function adminListAsns() {
+  return api.get<AsnSummary[]>("/admin/asns");
+}
+
+export async function adminGetAsnReconciliation(asnId: number) {
+  return api.get<AsnReconciliation>(`/admin/asns/${asnId}/reconciliation`);
+}
+
+export async function adminDeleteAsn(asnId: number) {
+  return api.delete(`/admin/asns/${asnId}`);
+}
+
+// ----------------------------------------------------
+// Supplier serial manifests (expected serials per OuterBox or PO)
+// ----------------------------------------------------
+export type ManifestPolicy = "WARN" | "BLOCK";
+
+export type SerialManifestSummary = {
+  id: number;
+  manifestRef: string;
+  outerBoxId: string | null; // null: several OuterBoxes, or the whole PO
+  poNumber: string;
+  supplier: string;
+  createdBy: string;
+  createdAt: string;
+  serials: number;
+  received: number; // into an OuterBox the manifest lists them for
+  wrongBox: number; // received, but into another OuterBox
+};
+
+export type ManifestCloseState = {
+  id: number;
+  manifestRef: string;
+  final: boolean;
+  missing: number;
+  wrongBox: number;
+  expected: number;
+};
+
+export type ManifestMissingReport = {
+  manifest: Omit<SerialManifestSummary, "serials" | "received" | "wrongBox">;
+  outerBoxes: { outerBoxId: string; status: OuterBoxStatus | "NOT_STARTED" }[];
+  final: boolean; // every covered OuterBox is CLOSED
+  missing: ManifestReportLine[];
+  wrongBox: ManifestReportLine[]; // received into an OuterBox the manifest does not list them for
+  totals: { expected: number; received: number; wrongBox: number; missing: number };
+};
+
+export type ManifestReportLine = {
+  serialNumber: string;
+  sku: string | null;
+  outerBoxId: string | null; // listed OuterBox (null: any OuterBox of the PO)
+  receivedOuterBoxId: string | null;
+  receivedInnerBoxId: string | null;
+  receivedSku: string | null;
+  receivedAt: string | null;
+};
+
+// CSV files are sent as text/csv, .json files as JSON
+export async function adminUploadSerialManifest(
+  content: string,
+  kind: "csv" | "json",
+  options: { replace?: boolean; manifestRef?: string; outerBoxId?: string; poNumber?: string; supplier?: string } = {}
+) {
+  return api.post<{ ok: boolean; manifests: { id: number; manifestRef: string; serials: number }[] }>(
+    "/admin/serial-manifests",
+    kind === "json" ? JSON.parse(content) : content,
+    {
+      params: { ...options, replace: options.replace ? 1 : undefined },
+      headers: { "Content-Type": kind === "json" ? "application/json" : "text/csv" },
+    }
+  );
+}
+
+export async function adminListSerialManifests() {
+  return api.get<{ policy: ManifestPolicy; manifests: SerialManifestSummary[] }>("/admin/serial-manifests");
+}
+
+export async function adminGetManifestMissing(manifestId: number) {
+  return api.get<ManifestMissingReport>(`/admin/serial-manifests/${manifestId}/missing`);
+}
+
+export async function adminExportManifestMissing(manifestId: number) {
+  return api.get<Blob>(`/admin/serial-manifests/${manifestId}/missing`, {
+    params: { format: "csv" },
+    responseType: "blob",
+  });
+}
+
+export async function adminDeleteSerialManifest(manifestId: number) {
+  return api.delete(`/admin/serial-manifests/${manifestId}`);
+}
+
+// ----------------------------------------------------
+// Live supervisor dashboard (server-sent events)
+// ----------------------------------------------------
+export type LeaseState = "OK" | "NEARING" | "EXPIRED";
+
+export type DashboardSnapshot = {
+  serverTime: string;
+  leaseMs: number;
+  active: {
+    id: number;
+    outerBoxId: string;
+    innerBoxId: string;
+    lockedBy: string;
+    lockedSku: string | null;
+    mode: SessionMode;
+    expectedQty: number;
+    scannedQty: number;
+    lockedAt: string;
+    lastSeen: string;
+    leaseAgeMs: number;
+    leaseState: LeaseState;
+  }[];
+  throughput: { operator: string; hour: string; items: number }[];
+  throughputHours: string[]; // hour buckets (ISO), oldest first
+  itemsToday: number;
+  confirmedToday: number;
+};
+
+export async function adminGetDashboard() {
+  return api.get<DashboardSnapshot>("/admin/dashboard");
+}
+
+// EventSource cannot send the Authorization header, so the token rides in the query string
+export function dashboardStreamUrl() {
+  return `${api.defaults.baseURL}/admin/dashboard/stream?token=${encodeURIComponent(getAuthToken())}`;
+}
+
+// ----------------------------------------------------
+// Report export (CSV / XLSX)
+// ----------------------------------------------------
+export type ExportFilters = {
+  format: "csv" | "xlsx";
+  outerBoxId?: string;
+  innerBoxId?: string;
+  packedBy?: string;
+  sku?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+};
+
+export async function adminExportInbounds(filters: ExportFilters) {
+  return api.get<Blob>("/admin/inbounds/export", {
+    params: filters,
+    responseType: "blob",
+  });
+}
+
+// ----------------------------------------------------
+// Packing manifests (PDF / ZPL), rendered by the backend
+// ----------------------------------------------------
+export type ManifestFormat = "pdf" | "zpl";
+
+export async function getInnerboxManifest(sessionId: number, format: ManifestFormat) {
+  return api.get<Blob>(`/inbounds/sessions/${sessionId}/manifest`, {
+    params: { format },
+    responseType: "blob",
+  });
+}
+
+export async function getOuterboxManifest(outerBoxId: string, format: ManifestFormat) {
+  return api.get<Blob>(`/inbounds/outerboxes/${encodeURIComponent(outerBoxId)}/manifest`, {
+    params: { format },
+    responseType: "blob",
+  });
+}
+
+// ----------------------------------------------------
+// OuterBox sessions (shared by every device packing the same pallet)
+// ----------------------------------------------------
+export type OuterBoxStatus = "OPEN" | "CLOSED";
+
+export type OuterBoxSummary = {
+  outerBox: {
+    outerBoxId: string;
+    status: OuterBoxStatus;
+    openedBy: string;
+    openedAt: string;
+    closedBy: string | null;
+    closedAt: string | null;
+  };
+  innerBoxes: {
+    sessionId: number;
+    innerBoxId: string;
+    expectedQty: number;
+    packedBy: string;
+    verifiedAt: string;
+    items: { sku: string; serial: string }[];
+  }[];
+  inProgress: {
+    sessionId: number;
+    innerBoxId: string;
+    expectedQty: number;
+    lockedBy: string;
+    lastSeen: string;
+    scannedQty: number;
+  }[];
+  totals: { innerBoxes: number; items: number; inProgress: number };
+};
+
+export async function openOuterbox(outerBoxId: string) {
+  return api.post<OuterBoxSummary>("/inbounds/outerboxes/open", { outerBoxId });
+}
+
+export async function getOuterbox(outerBoxId: string) {
+  return api.get<OuterBoxSummary>(`/inbounds/outerboxes/${encodeURIComponent(outerBoxId)}`);
+}
+
+// manifests: supplier serial manifests covering the box (final once all their OuterBoxes are closed)
+export async function closeOuterbox(outerBoxId: string) {
+  return api.post<OuterBoxSummary & { manifests: ManifestCloseState[] }>(
+    `/inbounds/outerboxes/${encodeURIComponent(outerBoxId)}/close`
+  );
+}
+
+// ----------------------------------------------------
+// Serial traceability (supervisor lookup)
+// ----------------------------------------------------
+export type TraceStatus = "RECEIVED" | "REMOVED" | "NOT_RECEIVED";
+
+export type TraceResult = {
+  serialNumber: string;
+  status: TraceStatus;
+  item: {
+    itemId: number;
+    serialNumber: string;
+    sku: string;
+    packedBy: string;
+    scannedAt: string;
+    outerBoxId: string;
+    innerBoxId: string;
+    sessionId: number;
+    sessionStatus: string | null;
+    confirmedAt: string | null;
+    batchNo: number | null;
+    batchStatus: string | null;
+    batchConfirmedAt: string | null;
+  } | null;
+  lastKnown: { outerBoxId: string | null; innerBoxId: string | null; action: string; at: string; actor: string } | null;
+  history: Omit<AuditEntry, "serialNumbers" | "itemId">[];
+};
+
+export async function traceSerials(serialNumbers: string[] | string) {
+  return api.post<{ results: TraceResult[]; counts: { received: number; removed: number; notReceived: number } }>(
+    "/admin/trace",
+    { serialNumbers }
+  );
+}
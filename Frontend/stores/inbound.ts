@@ -1,19 +1,58 @@
 // stores/inbound.ts
 import { defineStore } from "pinia";
-import { isValidSku } from "../utils/skuValidator";
+import { isValidSku, hasSkuMaster, syncSkuMaster, getSkuEntry } from "../utils/skuValidator";
+import { validateSerial } from "../utils/serialRules";
 import {
   claimSession,
   createInboundItem,
   completeSession,
   heartbeat as apiHeartbeat,
+  abandonSession,
   resetSession,
+  confirmBatch as apiConfirmBatch,
   deleteBatchItems,
   deleteInboundItems,
+  login as apiLogin,
+  logout as apiLogout,
+  fetchMe,
+  fetchEntryPolicy,
+  fetchWorkflowPolicy,
+  openOuterbox,
+  getOuterbox,
+  closeOuterbox as apiCloseOuterbox,
+  recordException as apiRecordException,
+  removeException as apiRemoveException,
+  getAuthToken,
+  setAuthToken,
+  getAuthOperator,
+  type AuthOperator,
+  type OperatorRole,
+  type AsnLineInfo,
+  type BoxLine,
+  type SessionMode,
+  type OuterBoxSummary,
+  type ManifestCloseState,
+  type InboundException,
+  type RecordExceptionPayload,
 } from "../src/api/inbounds";
+import {
+  enqueueScan,
+  listQueuedScans,
+  removeQueuedScan,
+  countQueuedScans,
+  isNetworkError,
+  isTransientError,
+  isFinalRejection,
+  newScanId,
+} from "../utils/offlineQueue";
+import { DEFAULT_ENTRY_POLICY, type EntryField, type EntryMethod, type EntryPolicy } from "../utils/entryDetector";
+import { DEFAULT_WORKFLOW_POLICY, resolveWorkflowPolicy, type WorkflowPolicy } from "../utils/workflowPolicy";
 
 export type ScannedItem = {
   sku: string;
   serial: string;
+  pending?: boolean; // queued offline, not yet saved on the server
+  batchNo?: number;
 };
 
 export type InnerBox = {
@@ -29,12 +68,42 @@ export type Session = {
   innerBoxes: InnerBox[];
 };
 
+// Store part of the scanning workflow saved on the device (see utils/workflowState.ts)
+export type WorkflowStoreState = {
+  session: Session | null;
+  sessionId: number | null;
+  current: {
+    innerBoxId: string;
+    expectedQty: number;
+    items: ScannedItem[];
+    exceptions: InboundException[];
+    mode: SessionMode;
+    lines: BoxLine[];
+  };
+  confirmedCount: number;
+  batchNo: number;
+  batchLocked: boolean;
+  deferredBatchConfirms: { sessionId: number; batchNo: number }[];
+  qtyLocked: boolean;
+  asnLine: AsnLineInfo | null;
+  dbLockedSku: string;
+  scanLocked: boolean;
+};
+
+// RESUMED: server data applied; OFFLINE: device copy kept as saved; MOVED_ON: the InnerBox/OuterBox cannot be resumed
+export type WorkflowResume = "RESUMED" | "OFFLINE" | "MOVED_ON";
+
 const todayISO = () => new Date().toISOString().slice(0, 10);
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// transient failures are retried with the same scanId before falling back to the offline queue
+const SAVE_RETRY_DELAYS_MS = [300, 1000];
 
 export const useInboundStore = defineStore("inbound", {
   state: () => ({
     session: null as Session | null,
     sessionId: null as number | null,
+    outerInProgress: [] as OuterBoxSummary["inProgress"], // InnerBoxes of this OuterBox open on any device
 
     scanCompleted: false as boolean,
     scanLocked: false as boolean,
@@ -42,26 +111,45 @@ export const useInboundStore = defineStore("inbound", {
     skuValidated: false as boolean,
     dbLockedSku: "" as string,
 
-    operatorName: "" as string,
+    operatorName: "" as string, // login username (recorded as packed_by)
+    operatorDisplayName: "" as string,
+    operatorRole: "" as OperatorRole | "",
 
     current: {
       innerBoxId: "",
       expectedQty: 0,
       sku: "",
       items: [] as ScannedItem[],
+      exceptions: [] as InboundException[], // units recorded as damaged / unreadable / ... (quarantined)
+      mode: "SINGLE" as SessionMode,
+      lines: [] as BoxLine[], // MIXED: declared SKU/qty lines (expectedQty is their sum)
     },
 
     error: "" as string,
     success: "" as string,
+    warning: "" as string,
 
     goOperatorRequested: false as boolean,
     goHomeRequested: false as boolean,
 
-    batchSize: 5 as number,
+    sitePolicy: { ...DEFAULT_WORKFLOW_POLICY } as WorkflowPolicy, // site default; SKU overrides come from the SKU master
     confirmedCount: 0 as number,
     batchLocked: false as boolean,
+    batchNo: 1 as number, // server batch that new scans go into
+    deferredBatchConfirms: [] as { sessionId: number; batchNo: number }[], // confirmed while scans were still queued
 
     qtyLocked: false as boolean,
+
+    asnLine: null as AsnLineInfo | null, // ASN line for the current InnerBox (qty + SKU come from it)
+
+    pendingSyncCount: 0 as number,
+    syncing: false as boolean,
+    savingSerials: [] as string[], // serials with a save request in flight
+
+    leaseMs: 2 * 60 * 1000 as number, // server SESSION_LEASE_MS (updated by every heartbeat)
+    leaseLost: false as boolean, // heartbeat/scan got 403: another user holds the InnerBox now
+
+    entryPolicy: { ...DEFAULT_ENTRY_POLICY } as Record<EntryField, EntryPolicy>, // typed-entry policy per field
   }),
 
   getters: {
@@ -76,6 +164,21 @@ export const useInboundStore = defineStore("inbound", {
 
     scannedProductsCurrent: (s) => s.current.items.length,
 
+    exceptionCount: (s) => s.current.exceptions.length,
+
+    // what reconciles against expectedQty: good items + exception units
+    countedQty: (s) => s.current.items.length + s.current.exceptions.length,
+
+    isMixed: (s) => s.current.mode === "MIXED",
+
+    // MIXED: per-line progress counted from the local scans (includes offline-pending ones)
+    lineProgress: (s) =>
+      s.current.lines.map((l) => {
+        const scannedQty = s.current.items.filter((i) => i.sku === l.sku).length;
+        const exceptionQty = s.current.exceptions.filter((e) => e.sku === l.sku).length;
+        return { ...l, scannedQty, exceptionQty, done: scannedQty + exceptionQty >= l.expectedQty };
+      }),
+
     allProductsCountIncludingCurrent(): number {
       return this.allProductsCount + this.scannedProductsCurrent;
     },
@@ -104,11 +207,32 @@ export const useInboundStore = defineStore("inbound", {
     pendingCount: (s) => Math.max(0, s.current.items.length - s.confirmedCount),
     pendingItems: (s) => s.current.items.slice(s.confirmedCount),
 
-    isBatchFull: (s) => (s.current.items.length - s.confirmedCount) >= s.batchSize,
+    // Policy of the current InnerBox: its SKU (MIXED: all line SKUs) over the site default
+    workflowPolicy(): WorkflowPolicy {
+      const skus = this.isMixed
+        ? this.current.lines.map((l) => l.sku)
+        : [this.dbLockedSku || this.asnLine?.sku || this.current.items[0]?.sku || this.current.sku].filter(Boolean);
+      return this.policyForSkus(skus);
+    },
+
+    batchSize(): number {
+      return this.workflowPolicy.batchSize;
+    },
+
+    confirmBatches(): boolean {
+      return this.workflowPolicy.confirmBatches;
+    },
 
+    // without batch confirmation the whole InnerBox is one open batch
+    isBatchFull(): boolean {
+      return this.confirmBatches && this.pendingCount >= this.batchSize;
+    },
+
+    // exception units are not scanned into batches
     totalBatches(): number {
       const q = this.current.expectedQty || 0;
-      return q > 0 ? Math.ceil(q / this.batchSize) : 0;
+      if (q <= 0) return 0;
+      return this.confirmBatches ? Math.max(1, Math.ceil((q - this.exceptionCount) / this.batchSize)) : 1;
     },
 
     currentBatchIndex(): number {
@@ -136,17 +260,21 @@ export const useInboundStore = defineStore("inbound", {
 
       return (
         expected > 0 &&
-        scanned === expected &&
-        pending === 0 &&
+        this.countedQty === expected &&
+        (pending === 0 || !this.confirmBatches) &&
         this.isLastBatch &&
         !this.scanLocked
       );
     },
 
-    canConfirmBatch: (s) => {
-      const pending = Math.max(0, s.current.items.length - s.confirmedCount);
-      return pending > 0 && pending <= s.batchSize;
+    hasUnsyncedCurrent: (s) => s.current.items.some((i) => i.pending),
+
+    canConfirmBatch(): boolean {
+      return this.confirmBatches && this.pendingCount > 0 && this.pendingCount <= this.batchSize;
     },
+
+    // policy for a set of SKUs (e.g. the ASN's SKU before the InnerBox is claimed)
+    policyForSkus: (s) => (skus: string[]) => resolveWorkflowPolicy(s.sitePolicy, skus.map((sku) => getSkuEntry(sku))),
   },
 
   actions: {
@@ -155,15 +283,73 @@ export const useInboundStore = defineStore("inbound", {
       this.success = "";
     },
 
-    setOperator(name: string) {
-      const v = name.trim();
-      if (!v) {
-        this.error = "Username is required.";
+    applyOperator(op: AuthOperator | null) {
+      this.operatorName = op?.username ?? "";
+      this.operatorDisplayName = op?.displayName ?? "";
+      this.operatorRole = op?.role ?? "";
+    },
+
+    // Username + PIN, or a scanned badge code
+    async login(credentials: { username: string; pin: string } | { badge: string }) {
+      this.clearMessages();
+
+      if ("badge" in credentials ? !credentials.badge.trim() : !credentials.username.trim() || !credentials.pin.trim()) {
+        this.error = "Username and PIN (or badge) are required.";
+        return false;
+      }
+
+      try {
+        const r = await apiLogin(credentials);
+        setAuthToken(r.data.token, r.data.operator);
+        this.applyOperator(r.data.operator);
+        return true;
+      } catch (err: any) {
+        this.error = err?.response?.data?.error || err?.message || "Login failed";
+        return false;
+      }
+    },
+
+    // Re-validate a stored token on app start; offline (e.g. a reload without network)
+    // the identity stored with the token is used until the server can be asked again
+    async restoreAuth() {
+      const token = getAuthToken();
+      if (!token) {
+        this.applyOperator(null);
+        return false;
+      }
+
+      try {
+        const r = await fetchMe();
+        setAuthToken(token, r.data.operator);
+        this.applyOperator(r.data.operator);
+        return true;
+      } catch (err: any) {
+        if (isNetworkError(err)) {
+          if (!this.operatorName) this.applyOperator(getAuthOperator());
+          return !!this.operatorName;
+        }
+        setAuthToken("");
+        this.applyOperator(null);
         return false;
       }
-      this.operatorName = v;
-      this.error = "";
-      return true;
+    },
+
+    async logout() {
+      try {
+        if (getAuthToken()) await apiLogout();
+      } catch {
+        // token is dropped locally either way
+      }
+      setAuthToken("");
+      this.applyOperator(null);
+    },
+
+    // Token rejected by the server mid-shift: drop identity and send the user back to login
+    handleUnauthorized() {
+      setAuthToken("");
+      this.applyOperator(null);
+      this.error = "Session expired. Please login again.";
+      this.requestGoOperator();
     },
 
     requestGoOperator() {
@@ -180,34 +366,102 @@ export const useInboundStore = defineStore("inbound", {
       this.goHomeRequested = false;
     },
 
-    startOrResumeOuterbox(outerBoxId: string) {
+    // Opens the OuterBox on the server and rebuilds innerBoxes from it (other devices included).
+    // Offline: falls back to the local session; totals catch up on the next refresh.
+    async startOrResumeOuterbox(outerBoxId: string) {
       const id = outerBoxId.trim();
       if (!id) {
         this.error = "Outer Box ID is required.";
         return false;
       }
 
-      if (this.session && this.session.outerBoxId === id) {
-        this.clearMessages();
-        return true;
+      const switching = this.session?.outerBoxId !== id;
+
+      try {
+        const r = await openOuterbox(id);
+        this.applyOuterboxSummary(r.data);
+      } catch (err: any) {
+        if (!isNetworkError(err)) {
+          this.error = err?.response?.data?.error || err?.message || "Failed to open OuterBox";
+          return false;
+        }
+        if (switching) {
+          this.session = { date: todayISO(), outerBoxId: id, innerBoxes: [] };
+          this.outerInProgress = [];
+        }
       }
 
+      if (switching) this.resetCurrentInnerboxLocal();
+      this.clearMessages();
+      return true;
+    },
+
+    applyOuterboxSummary(summary: OuterBoxSummary) {
       this.session = {
-        date: todayISO(),
-        outerBoxId: id,
-        innerBoxes: [],
+        date: this.session?.outerBoxId === summary.outerBox.outerBoxId ? this.session.date : todayISO(),
+        outerBoxId: summary.outerBox.outerBoxId,
+        innerBoxes: summary.innerBoxes.map((b) => ({
+          innerBoxId: b.innerBoxId,
+          expectedQty: b.expectedQty,
+          items: b.items,
+          verifiedAt: b.verifiedAt,
+        })),
       };
+      this.outerInProgress = summary.inProgress;
+    },
 
-      this.resetCurrentInnerboxLocal();
+    // Best effort: pick up InnerBoxes confirmed on other devices
+    async refreshOuterbox() {
+      if (!this.session?.outerBoxId) return;
+      try {
+        const r = await getOuterbox(this.session.outerBoxId);
+        this.applyOuterboxSummary(r.data);
+      } catch {
+        // keep local totals
+      }
+    },
+
+    async closeOuterbox() {
       this.clearMessages();
-      return true;
+
+      if (!this.session?.outerBoxId) {
+        this.error = "No active OuterBox.";
+        return false;
+      }
+      if (this.sessionId) {
+        this.error = "Finish or reset the current InnerBox first.";
+        return false;
+      }
+
+      try {
+        const r = await apiCloseOuterbox(this.session.outerBoxId);
+        const { totals } = r.data;
+        this.session = null;
+        this.outerInProgress = [];
+        this.success = `OuterBox ${r.data.outerBox.outerBoxId} closed: ${totals.innerBoxes} InnerBox(es), ${totals.items} item(s).`;
+
+        // supplier manifests whose OuterBoxes are now all closed: report what never arrived
+        const short = (r.data.manifests ?? []).filter((m) => m.final && (m.missing > 0 || m.wrongBox > 0));
+        if (short.length) {
+          const counts = (m: ManifestCloseState) =>
+            [m.missing && `${m.missing} missing`, m.wrongBox && `${m.wrongBox} in another OuterBox`].filter(Boolean).join(", ");
+          this.warning = `Missing from delivery: ${short.map((m) => `${counts(m)} of ${m.expected} serial(s) on manifest ${m.manifestRef}`).join("; ")}.`;
+        }
+        return true;
+      } catch (err: any) {
+        this.error = err?.response?.data?.error || err?.message || "Failed to close OuterBox";
+        return false;
+      }
     },
 
-    async beginInnerbox(innerBoxId: string, expectedQty: number) {
+    // lines: declare a MIXED InnerBox (several SKUs); quantity becomes the sum of the lines
+    async beginInnerbox(innerBoxId: string, expectedQty: number, lines?: BoxLine[]) {
       this.clearMessages();
 
       const inner = innerBoxId.trim();
-      const qty = Math.max(0, Math.floor(Number(expectedQty) || 0));
+      const qty = lines?.length
+        ? lines.reduce((n, l) => n + l.expectedQty, 0)
+        : Math.max(0, Math.floor(Number(expectedQty) || 0));
 
       if (!this.session?.outerBoxId) {
         this.error = "Start outer box session first.";
@@ -231,42 +485,58 @@ export const useInboundStore = defineStore("inbound", {
           outerBoxId: this.session.outerBoxId,
           innerBoxId: inner,
           expectedQty: qty,
-          packedBy: this.operatorName,
+          ...(lines?.length ? { lines: lines.map((l) => ({ sku: l.sku, expectedQty: l.expectedQty })) } : {}),
         });
         
 console.log("CLAIM SESSION RESPONSE:", r.data)
 console.log("RESUMED ITEMS LENGTH:", Array.isArray(r.data?.items) ? r.data.items.length : "not-array")
 
-        const { session, items } = r.data;
+        this.applyClaim(r.data, inner, qty);
+        return true;
+      } catch (err: any) {
+        this.error = err?.response?.data?.error || err?.message || "Failed to claim session";
+        return false;
+      }
+    },
 
-        this.dbLockedSku = String(session.lockedSku ?? "").trim().toUpperCase();
-        if (!this.dbLockedSku && Array.isArray(items) && items.length > 0) {
-          this.dbLockedSku = String(items[0].sku ?? "").toUpperCase();
-        }
+    // claim response (new or resumed session) -> current InnerBox state
+    applyClaim(data: any, inner: string, qty: number) {
+      const { session, items } = data;
 
-        this.sessionId = session.id;
+      this.asnLine = data.asn ?? null;
+      if (data.asnWarning) this.warning = data.asnWarning;
 
-        this.current.innerBoxId = session.innerBoxId ?? inner;
-        this.current.expectedQty = session.expectedQty ?? qty;
-        this.qtyLocked = true;
+      this.current.mode = session.mode === "MIXED" ? "MIXED" : "SINGLE";
+      this.current.lines = Array.isArray(data.lines)
+        ? data.lines.map((l: BoxLine) => ({ sku: l.sku, expectedQty: l.expectedQty }))
+        : [];
 
-        this.current.items = Array.isArray(items) ? items : [];
+      this.dbLockedSku = String(session.lockedSku ?? "").trim().toUpperCase();
+      if (!this.isMixed && !this.dbLockedSku && Array.isArray(items) && items.length > 0) {
+        this.dbLockedSku = String(items[0].sku ?? "").toUpperCase();
+      }
 
-        // ✅ resume state: everything already in DB is treated as confirmed
-        this.confirmedCount = this.current.items.length;
-        this.batchLocked = false;
+      this.sessionId = session.id;
 
-        this.current.sku = "";
-        this.skuValidated = false;
+      this.current.innerBoxId = session.innerBoxId ?? inner;
+      this.current.expectedQty = session.expectedQty ?? qty;
+      this.qtyLocked = true;
 
-        this.scanLocked = false;
-        this.scanCompleted = false;
+      this.current.items = Array.isArray(items)
+        ? items.map((i: any) => ({ sku: i.sku, serial: i.serial, batchNo: i.batchNo ?? undefined }))
+        : [];
+      this.current.exceptions = Array.isArray(data.exceptions) ? data.exceptions : [];
 
-        return true;
-      } catch (err: any) {
-        this.error = err?.response?.data?.error || err?.message || "Failed to claim session";
-        return false;
-      }
+      // ✅ resume state: confirmed batches come first, the open batch is restored as pending
+      this.confirmedCount = Array.isArray(items) ? items.filter((i: any) => i.confirmed).length : 0;
+      this.batchNo = Number(data.batchNo) || 1;
+      this.batchLocked = this.isBatchFull;
+
+      this.current.sku = "";
+      this.skuValidated = false;
+
+      this.scanLocked = false;
+      this.scanCompleted = false;
     },
 
     setSku(incoming: string) {
@@ -275,18 +545,63 @@ console.log("RESUMED ITEMS LENGTH:", Array.isArray(r.data?.items) ? r.data.items
       const sku = incoming.trim().toUpperCase();
       if (!sku) return false;
 
+      if (!hasSkuMaster()) {
+        this.skuValidated = false;
+        this.error = "SKU list not downloaded yet. Connect to the server and try again.";
+        return false;
+      }
+
       if (!isValidSku(sku)) {
         this.skuValidated = false;
         this.error = `Invalid SKU: "${sku}"`;
         return false;
       }
 
+      if (this.isMixed) {
+        const line = this.lineProgress.find((l) => l.sku === sku);
+        if (!line) {
+          this.skuValidated = false;
+          this.error = `SKU ${sku} is not declared for this InnerBox.`;
+          return false;
+        }
+        if (line.done) {
+          this.skuValidated = false;
+          this.error = `SKU ${sku} is already complete (${line.scannedQty + line.exceptionQty}/${line.expectedQty}).`;
+          return false;
+        }
+      }
+
       this.current.sku = sku;
       this.skuValidated = true;
       return true;
     },
 
-    async addSerial(incoming: string) {
+    // Pull the server SKU master into the device cache (no-op when the version is unchanged)
+    async refreshSkuMaster() {
+      return syncSkuMaster();
+    },
+
+    // Offline keeps the last loaded (or default) policy
+    async refreshEntryPolicy() {
+      try {
+        const r = await fetchEntryPolicy();
+        this.entryPolicy = { ...DEFAULT_ENTRY_POLICY, ...r.data.policy };
+      } catch {
+        // best effort
+      }
+    },
+
+    // Offline keeps the last loaded (or default) policy
+    async refreshWorkflowPolicy() {
+      try {
+        const r = await fetchWorkflowPolicy();
+        this.sitePolicy = { ...DEFAULT_WORKFLOW_POLICY, ...r.data.policy };
+      } catch {
+        // best effort
+      }
+    },
+
+    async addSerial(incoming: string, entry: { sku?: EntryMethod; serial?: EntryMethod } = {}) {
       this.clearMessages();
 
       if (this.scanLocked) {
@@ -317,30 +632,289 @@ console.log("RESUMED ITEMS LENGTH:", Array.isArray(r.data?.items) ? r.data.items
         return false;
       }
 
+      // scanner double-fire: the same serial is already being saved
+      if (this.savingSerials.includes(sn)) return false;
+
+      // ✅ per-SKU serial format (length / prefix / regex / check digit)
+      const serialError = validateSerial(this.current.sku, sn, getSkuEntry(this.current.sku));
+      if (serialError) {
+        this.error = serialError;
+        return false;
+      }
+
+      const payload = {
+        sessionId: this.sessionId,
+        sku: this.current.sku,
+        serialNumber: sn,
+        scanId: newScanId(),
+        batchNo: this.batchNo,
+        entryMethod: entry.serial,
+        skuEntryMethod: entry.sku,
+      };
+
+      // keep order: while older scans are still queued, new ones go behind them
+      let queued = this.pendingSyncCount > 0;
+
+      if (!queued) {
+        this.savingSerials.push(sn);
+        try {
+          const r = await this.saveScan(payload);
+          if (r.data.manifestWarning) this.warning = r.data.manifestWarning;
+        } catch (err: any) {
+          if (err?.response?.status === 403) {
+            this.markLeaseLost();
+            return false;
+          }
+          if (!isNetworkError(err)) {
+            this.error = err?.response?.data?.error || err?.message || "Failed to save scan";
+            return false;
+          }
+          queued = true;
+        } finally {
+          this.savingSerials = this.savingSerials.filter((s) => s !== sn);
+        }
+      }
+
+      if (queued) {
+        try {
+          await enqueueScan({ ...payload, packedBy: this.operatorName });
+          this.pendingSyncCount += 1;
+        } catch (err: any) {
+          this.error = err?.message || "Offline: failed to queue scan on device";
+          return false;
+        }
+      }
+
+      this.current.items.push({
+        sku: this.current.sku,
+        serial: sn,
+        batchNo: this.batchNo,
+        ...(queued ? { pending: true } : {}),
+      });
+
+      // reset SKU cycle
+      this.current.sku = "";
+      this.skuValidated = false;
+
+      if (this.isBatchFull) this.batchLocked = true;
+
+      return true;
+    },
+
+    // The server answers a repeated scanId with the original item, so retrying is never a duplicate
+    async saveScan(payload: Parameters<typeof createInboundItem>[0]) {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await createInboundItem(payload);
+        } catch (err: any) {
+          const delay = SAVE_RETRY_DELAYS_MS[attempt];
+          if (delay === undefined || !isTransientError(err)) throw err;
+          await wait(delay);
+        }
+      }
+    },
+
+    workflowState(): WorkflowStoreState {
+      const { innerBoxId, expectedQty, items, exceptions, mode, lines } = this.current;
+      return {
+        session: this.session,
+        sessionId: this.sessionId,
+        current: { innerBoxId, expectedQty, items, exceptions, mode, lines },
+        confirmedCount: this.confirmedCount,
+        batchNo: this.batchNo,
+        batchLocked: this.batchLocked,
+        deferredBatchConfirms: this.deferredBatchConfirms,
+        qtyLocked: this.qtyLocked,
+        asnLine: this.asnLine,
+        dbLockedSku: this.dbLockedSku,
+        scanLocked: this.scanLocked,
+      };
+    },
+
+    // Page reload: the server's OuterBox summary and claim/resume data win over the saved copy.
+    // Offline, the saved copy is used as-is so scanning can go on into the offline queue.
+    async resumeWorkflow(saved: WorkflowStoreState): Promise<WorkflowResume> {
+      this.session = saved.session;
+      this.deferredBatchConfirms = saved.deferredBatchConfirms ?? [];
+      if (!saved.session) return "RESUMED";
+
       try {
-        await createInboundItem({
-          sessionId: this.sessionId,
-          sku: this.current.sku,
-          serialNumber: sn,
-          packedBy: this.operatorName,
+        const r = await getOuterbox(saved.session.outerBoxId);
+        this.applyOuterboxSummary(r.data);
+        if (r.data.outerBox.status === "CLOSED") {
+          this.session = null;
+          this.outerInProgress = [];
+          this.resetCurrentInnerboxLocal();
+          this.warning = `OuterBox ${saved.session.outerBoxId} was closed in the meantime.`;
+          return "MOVED_ON";
+        }
+      } catch (err: any) {
+        if (!isNetworkError(err)) {
+          this.session = null;
+          this.resetCurrentInnerboxLocal();
+          this.warning = err?.response?.data?.error || `OuterBox ${saved.session.outerBoxId} could not be resumed.`;
+          return "MOVED_ON";
+        }
+      }
+
+      if (!saved.sessionId) return "RESUMED";
+
+      const c = saved.current;
+      try {
+        const r = await claimSession({
+          outerBoxId: saved.session.outerBoxId,
+          innerBoxId: c.innerBoxId,
+          expectedQty: c.expectedQty,
+          ...(c.mode === "MIXED" ? { lines: c.lines.map((l) => ({ sku: l.sku, expectedQty: l.expectedQty })) } : {}),
         });
+        this.applyClaim(r.data, c.innerBoxId, c.expectedQty);
+      } catch (err: any) {
+        if (isNetworkError(err)) {
+          Object.assign(this, {
+            sessionId: saved.sessionId,
+            confirmedCount: saved.confirmedCount,
+            batchNo: saved.batchNo,
+            batchLocked: saved.batchLocked,
+            qtyLocked: saved.qtyLocked,
+            asnLine: saved.asnLine,
+            dbLockedSku: saved.dbLockedSku,
+            scanLocked: saved.scanLocked,
+          });
+          this.current = { ...c, exceptions: c.exceptions ?? [], sku: "" };
+          return "OFFLINE";
+        }
 
-        this.current.items.push({ sku: this.current.sku, serial: sn });
+        this.resetCurrentInnerboxLocal();
+        this.warning = `InnerBox ${c.innerBoxId} could not be resumed: ${err?.response?.data?.error || err?.message || "claim failed"}`;
+        return "MOVED_ON";
+      }
 
-        // reset SKU cycle
-        this.current.sku = "";
-        this.skuValidated = false;
+      if (this.sessionId !== saved.sessionId) {
+        this.warning = `InnerBox ${c.innerBoxId} was removed on the server and has been started again.`;
+      }
+      await this.restoreQueuedItems();
+      return "RESUMED";
+    },
 
-        const pending = this.current.items.length - this.confirmedCount;
-        if (pending >= this.batchSize) this.batchLocked = true;
+    // Scans still in the offline queue are not in the claim response: show them as pending again
+    async restoreQueuedItems() {
+      if (!this.sessionId) return;
+      const queue = await listQueuedScans().catch(() => []);
+      for (const entry of queue) {
+        if (entry.sessionId !== this.sessionId) continue;
+        if (this.current.items.some((i) => i.serial === entry.serialNumber)) continue;
+        this.current.items.push({ sku: entry.sku, serial: entry.serialNumber, batchNo: entry.batchNo, pending: true });
+      }
+      this.batchLocked = this.isBatchFull;
+    },
 
-        return true;
+    async refreshPendingSyncCount() {
+      this.pendingSyncCount = await countQueuedScans();
+    },
+
+    // Replay queued scans in order against /api/inbounds/items.
+    // Stops at the first network failure or server error (5xx, 401); final rejections
+    // (409 duplicate, 403 lock, 400/422 validation, 404 session gone) are dropped.
+    // Only the logged-in operator's scans are sent (the server records the token's user).
+    async syncOfflineQueue() {
+      if (this.syncing) return;
+      this.syncing = true;
+
+      let synced = 0;
+      const rejected: string[] = [];
+      const manifestWarnings: string[] = [];
+
+      try {
+        const queue = await listQueuedScans();
+
+        for (const entry of queue) {
+          if (!this.operatorName || entry.packedBy !== this.operatorName) continue;
+
+          try {
+            // the server refuses scans while an earlier batch is full: confirm it first
+            if (entry.batchNo && !(await this.flushDeferredBatchConfirms(entry.sessionId, entry.batchNo))) break;
+
+            const r = await createInboundItem({
+              sessionId: entry.sessionId,
+              sku: entry.sku,
+              serialNumber: entry.serialNumber,
+              scanId: entry.scanId,
+              batchNo: entry.batchNo,
+              entryMethod: entry.entryMethod,
+              skuEntryMethod: entry.skuEntryMethod,
+            });
+            await removeQueuedScan(entry.id!);
+            this.markSynced(entry.sessionId, entry.serialNumber);
+            if (r.data.manifestWarning) manifestWarnings.push(r.data.manifestWarning);
+            synced += 1;
+          } catch (err: any) {
+            // offline, server restarting / failing, or logged out mid-sync: keep the rest queued
+            if (!isFinalRejection(err)) break;
+
+            const status = err?.response?.status;
+            const reason =
+              status === 409
+                ? err?.response?.data?.error || "Serial number already exists."
+                : status === 403
+                  ? "InnerBox is locked by another user."
+                  : err?.response?.data?.error || err?.message || "Rejected by server";
+
+            await removeQueuedScan(entry.id!);
+            this.dropRejectedScan(entry.sessionId, entry.serialNumber);
+            rejected.push(`${entry.serialNumber}: ${reason}`);
+          }
+        }
+        // batches confirmed while offline are confirmed on the server once their scans are in
+        if (!(await countQueuedScans())) await this.flushDeferredBatchConfirms();
       } catch (err: any) {
-        this.error = err?.response?.data?.error || err?.message || "Failed to save scan";
-        return false;
+        this.error = err?.message || "Failed to read offline queue";
+      } finally {
+        await this.refreshPendingSyncCount();
+        this.syncing = false;
+      }
+
+      if (manifestWarnings.length) {
+        this.warning = `${manifestWarnings.length} synced scan(s) do not match the supplier manifest: ${manifestWarnings.join(" ")}`;
+      }
+      if (rejected.length) {
+        this.error = `${rejected.length} offline scan(s) rejected and removed: ${rejected.join("; ")}`;
+      } else if (synced > 0) {
+        this.success = `${synced} offline scan(s) synced.`;
       }
     },
 
+    markSynced(sessionId: number, serial: string) {
+      if (sessionId !== this.sessionId) return;
+      const item = this.current.items.find((i) => i.serial === serial);
+      if (item) delete item.pending;
+    },
+
+    dropRejectedScan(sessionId: number, serial: string) {
+      if (sessionId !== this.sessionId) return;
+      const idx = this.current.items.findIndex((i) => i.serial === serial);
+      if (idx < 0) return;
+
+      this.current.items.splice(idx, 1);
+      if (idx < this.confirmedCount) this.confirmedCount -= 1;
+
+      const pending = this.current.items.length - this.confirmedCount;
+      if (pending < this.batchSize) this.batchLocked = false;
+    },
+
+    // Remove queued (never synced) scans for this session; returns the serials that were dropped
+    async discardQueuedScans(sessionId: number, serials?: string[]) {
+      const dropped: string[] = [];
+      const queue = await listQueuedScans();
+      for (const entry of queue) {
+        if (entry.sessionId !== sessionId) continue;
+        if (serials && !serials.includes(entry.serialNumber)) continue;
+        await removeQueuedScan(entry.id!);
+        dropped.push(entry.serialNumber);
+      }
+      await this.refreshPendingSyncCount();
+      return dropped;
+    },
+
     async confirmBatch() {
       this.clearMessages();
 
@@ -353,10 +927,52 @@ console.log("RESUMED ITEMS LENGTH:", Array.isArray(r.data?.items) ? r.data.items
         this.error = `Batch cannot exceed ${this.batchSize} items. Reset batch.`;
         return false;
       }
+      if (!this.sessionId) {
+        this.error = "No active session.";
+        return false;
+      }
+
+      // scans of this batch still queued on the device: confirm on the server after they sync
+      let deferred = this.pendingItems.some((i) => i.pending);
+      let nextBatchNo = this.batchNo + 1;
+
+      if (!deferred) {
+        try {
+          const r = await apiConfirmBatch(this.sessionId, this.batchNo);
+          nextBatchNo = r.data.nextBatchNo || nextBatchNo;
+        } catch (err: any) {
+          if (!isNetworkError(err)) {
+            this.error = err?.response?.data?.error || err?.message || "Failed to confirm batch";
+            return false;
+          }
+          deferred = true;
+        }
+      }
+
+      if (deferred) this.deferredBatchConfirms.push({ sessionId: this.sessionId, batchNo: this.batchNo });
 
       this.confirmedCount += pending;
+      this.batchNo = nextBatchNo;
       this.batchLocked = false;
-      this.success = "Batch confirmed.";
+      this.success = deferred ? "Batch confirmed on device (will sync)." : "Batch confirmed.";
+      return true;
+    },
+
+    // Replay batch confirmations made offline; stops at the first network failure
+    // sessionId + beforeBatchNo: only the confirms that must land before a scan of that batch
+    async flushDeferredBatchConfirms(sessionId?: number, beforeBatchNo?: number) {
+      const due = (c: { sessionId: number; batchNo: number }) =>
+        sessionId === undefined || (c.sessionId === sessionId && c.batchNo < (beforeBatchNo ?? Infinity));
+
+      for (const next of this.deferredBatchConfirms.filter(due)) {
+        try {
+          await apiConfirmBatch(next.sessionId, next.batchNo);
+        } catch (err: any) {
+          if (!isFinalRejection(err)) return false;
+          // already confirmed / session gone: nothing left to do for this one
+        }
+        this.deferredBatchConfirms = this.deferredBatchConfirms.filter((c) => c !== next);
+      }
       return true;
     },
 
@@ -375,11 +991,17 @@ console.log("RESUMED ITEMS LENGTH:", Array.isArray(r.data?.items) ? r.data.items
       }
 
       try {
-        await deleteBatchItems({
-          sessionId: this.sessionId,
-          packedBy: this.operatorName,
-          serialNumbers: pendingItems.map((i) => i.serial),
-        });
+        // scans still waiting in the offline queue never reached the server
+        const unsynced = pendingItems.filter((i) => i.pending).map((i) => i.serial);
+        if (unsynced.length) await this.discardQueuedScans(this.sessionId, unsynced);
+
+        // the open batch on the server holds exactly the synced pending items
+        if (pendingItems.some((i) => !i.pending)) {
+          await deleteBatchItems({
+            sessionId: this.sessionId,
+            batchNo: this.batchNo,
+          });
+        }
 
         this.current.items.splice(this.confirmedCount);
         this.batchLocked = false;
@@ -417,7 +1039,7 @@ if (this.confirmedCount === 0) {
       }
 
       try {
-        await deleteInboundItems(this.sessionId, this.operatorName, [serial]);
+        await deleteInboundItems(this.sessionId, [serial]);
         this.current.items.splice(idx, 1);
 
         const pending = this.current.items.length - this.confirmedCount;
@@ -431,13 +1053,99 @@ if (this.confirmedCount === 0) {
       }
     },
 
+    // Damaged / unlabelled / unreadable unit: counts toward expectedQty and goes to quarantine.
+    // Needs the server (photos are not queued offline).
+    async recordException(payload: RecordExceptionPayload) {
+      this.clearMessages();
+
+      if (this.scanLocked) {
+        this.error = "Scanning is locked. Complete or reset.";
+        return false;
+      }
+      if (!this.sessionId) {
+        this.error = "No active session. Please start InnerBox again.";
+        return false;
+      }
+      if (this.current.expectedQty > 0 && this.countedQty >= this.current.expectedQty) {
+        this.error = `InnerBox is already full (${this.countedQty}/${this.current.expectedQty}).`;
+        return false;
+      }
+
+      try {
+        const r = await apiRecordException(this.sessionId, payload);
+        this.current.exceptions.push(r.data.exception);
+        this.success = `Exception recorded (${r.data.exception.reasonCode}).`;
+        return true;
+      } catch (err: any) {
+        if (err?.response?.status === 403) {
+          this.markLeaseLost();
+          return false;
+        }
+        this.error = isNetworkError(err)
+          ? "Offline: exceptions can only be recorded with a connection."
+          : err?.response?.data?.error || err?.message || "Failed to record exception";
+        return false;
+      }
+    },
+
+    async removeException(exceptionId: number) {
+      this.clearMessages();
+
+      if (!this.sessionId) {
+        this.error = "No active session.";
+        return false;
+      }
+
+      try {
+        await apiRemoveException(this.sessionId, exceptionId);
+        this.current.exceptions = this.current.exceptions.filter((e) => e.id !== exceptionId);
+        this.success = "Exception removed.";
+        return true;
+      } catch (err: any) {
+        if (err?.response?.status === 403) this.markLeaseLost();
+        else this.error = err?.response?.data?.error || err?.message || "Failed to remove exception";
+        return false;
+      }
+    },
+
+    // false when the lease could not be renewed; only a 403 means it is gone (offline just retries later)
     async heartbeat() {
-      if (!this.sessionId) return;
-      if (!this.operatorName) return;
+      if (!this.sessionId || !this.operatorName || this.leaseLost) return false;
       try {
-        await apiHeartbeat(this.sessionId, this.operatorName);
+        const r = await apiHeartbeat(this.sessionId);
+        if (r.data?.leaseMs > 0) this.leaseMs = r.data.leaseMs;
+        return true;
+      } catch (err: any) {
+        if (err?.response?.status === 403) this.markLeaseLost();
+        return false;
+      }
+    },
+
+    markLeaseLost() {
+      this.leaseLost = true;
+      this.scanLocked = true;
+      this.error = `Lease lost: InnerBox ${this.current.innerBoxId} was claimed by another user or is no longer in progress.`;
+    },
+
+    // Claim the same InnerBox again (resumes it when the other user's lease has expired)
+    async reclaimLease() {
+      const ok = await this.beginInnerbox(
+        this.current.innerBoxId,
+        this.current.expectedQty,
+        this.isMixed ? this.current.lines : undefined
+      );
+      if (ok) this.leaseLost = false;
+      return ok;
+    },
+
+    // Explicit logout: unlock the InnerBox on the server (scans are kept, it can be claimed again); best effort.
+    // A closed or reloaded tab is not abandoned: the lease expires on its own and a reload resumes the box.
+    async abandonCurrent() {
+      if (!this.sessionId || this.scanCompleted || this.leaseLost) return;
+      try {
+        await abandonSession(this.sessionId);
       } catch {
-        // ignore
+        // the lease expires on its own
       }
     },
 
@@ -447,9 +1155,15 @@ if (this.confirmedCount === 0) {
         this.error = "No active session.";
         return false;
       }
+      if (this.hasUnsyncedCurrent) {
+        this.error = "Some scans are still pending sync. Reconnect and wait for sync before confirming.";
+        return false;
+      }
+
+      await this.flushDeferredBatchConfirms();
 
       try {
-        await completeSession(this.sessionId, this.operatorName);
+        await completeSession(this.sessionId);
         this.scanLocked = true;
         this.scanCompleted = true;
         this.success = "Confirmed successfully.";
@@ -483,11 +1197,12 @@ if (this.confirmedCount === 0) {
       this.error = "";
 
       this.resetCurrentInnerboxLocal();
+      await this.refreshOuterbox();
       return true;
     },
 
     resetCurrentInnerboxLocal() {
-      this.current = { innerBoxId: "", expectedQty: 0, sku: "", items: [] };
+      this.current = { innerBoxId: "", expectedQty: 0, sku: "", items: [], exceptions: [], mode: "SINGLE", lines: [] };
       this.sessionId = null;
 
       this.dbLockedSku = "";
@@ -497,8 +1212,11 @@ if (this.confirmedCount === 0) {
       this.scanCompleted = false;
 
       this.qtyLocked = false;
+      this.asnLine = null;
       this.confirmedCount = 0;
       this.batchLocked = false;
+      this.batchNo = 1;
+      this.leaseLost = false;
 
       this.clearMessages();
     },
@@ -508,7 +1226,8 @@ if (this.confirmedCount === 0) {
 
       if (this.sessionId) {
         try {
-          await resetSession(this.sessionId, this.operatorName);
+          await resetSession(this.sessionId);
+          await this.discardQueuedScans(this.sessionId);
         } catch (err: any) {
           this.error = err?.response?.data?.error || err?.message || "Failed to reset on server";
           return false;
@@ -519,9 +1238,18 @@ if (this.confirmedCount === 0) {
       return true;
     },
 
+    // Logout: release the InnerBox instead of resetting it (saved scans stay on the server)
+    async releaseAll() {
+      await this.abandonCurrent();
+      this.session = null;
+      this.outerInProgress = [];
+      this.resetCurrentInnerboxLocal();
+    },
+
     // ✅ IMPORTANT: make resetAll async so UI can await server reset
     async resetAll() {
       this.session = null;
+      this.outerInProgress = [];
       await this.resetCurrentInnerbox();
       this.clearMessages();
     },
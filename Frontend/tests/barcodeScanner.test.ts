@@ -0,0 +1,41 @@
+import { readFileSync } from "node:fs";
+import { PNG } from "pngjs";
+import { describe, expect, it } from "vitest";
+import { decodePixels, normalizeScan } from "../utils/barcodeScanner";
+
+function decodeFixture(name: string) {
+  const png = PNG.sync.read(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+  return decodePixels(png.data, png.width, png.height);
+}
+
+describe("decodePixels", () => {
+  it("decodes a Code128 label", () => {
+    expect(decodeFixture("code128.png")).toBe("SN-0042-ABC");
+  });
+
+  it("decodes a QR code and strips its control characters", () => {
+    expect(decodeFixture("qr.png")).toBe("SN7781-QR");
+  });
+
+  it("decodes a DataMatrix code", () => {
+    expect(decodeFixture("datamatrix.png")).toBe("SKU-5521");
+  });
+
+  it("returns null when there is no barcode", () => {
+    expect(decodePixels(new Uint8ClampedArray(64 * 64 * 4).fill(255), 64, 64)).toBeNull();
+  });
+});
+
+describe("normalizeScan", () => {
+  it("drops GS1 group separators and control characters", () => {
+    expect(normalizeScan("\u001d0104012345678901\u001d21SN42")).toBe("010401234567890121SN42");
+  });
+
+  it("trims surrounding whitespace and line endings", () => {
+    expect(normalizeScan("  SN-1001\r\n")).toBe("SN-1001");
+  });
+
+  it("returns an empty string for control characters only", () => {
+    expect(normalizeScan("\u0000\u001d\u007f")).toBe("");
+  });
+});
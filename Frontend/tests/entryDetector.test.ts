@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { createEntryTracker } from "../utils/entryDetector";
+
+const key = (k: string, timeStamp: number, mods: Partial<KeyboardEvent> = {}) =>
+  ({ key: k, timeStamp, ctrlKey: false, metaKey: false, ...mods }) as KeyboardEvent;
+
+// types `text` with the given gaps between keystrokes (one gap fewer than characters)
+function typed(text: string, gaps: number | number[]) {
+  const tracker = createEntryTracker();
+  let t = 1000;
+  [...text].forEach((ch, i) => {
+    if (i > 0) t += Array.isArray(gaps) ? gaps[i - 1]! : gaps;
+    tracker.keydown(key(ch, t));
+  });
+  return tracker;
+}
+
+describe("createEntryTracker", () => {
+  it("classifies a fast even burst as SCANNER", () => {
+    expect(typed("SN12345678", 8).method()).toBe("SCANNER");
+  });
+
+  it("accepts an average gap right at the limit", () => {
+    expect(typed("SN1234", 35).method()).toBe("SCANNER");
+  });
+
+  it("classifies slow typing as MANUAL", () => {
+    expect(typed("SN12345678", 120).method()).toBe("MANUAL");
+  });
+
+  it("classifies an average just over the limit as MANUAL", () => {
+    expect(typed("SN1234", 36).method()).toBe("MANUAL");
+  });
+
+  it("classifies a fast burst with one long pause as MANUAL", () => {
+    expect(typed("SN1234", [5, 5, 81, 5, 5]).method()).toBe("MANUAL");
+  });
+
+  it("needs at least four keystrokes", () => {
+    expect(typed("SN1", 5).method()).toBe("MANUAL");
+    expect(typed("SN12", 5).method()).toBe("SCANNER");
+  });
+
+  it("treats a paste as MANUAL even after a fast burst", () => {
+    const tracker = typed("SN12345678", 5);
+    tracker.paste();
+    expect(tracker.method()).toBe("MANUAL");
+  });
+
+  it("treats an edit (Backspace / Delete) as MANUAL", () => {
+    for (const k of ["Backspace", "Delete"]) {
+      const tracker = typed("SN12345678", 5);
+      tracker.keydown(key(k, 2000));
+      expect(tracker.method()).toBe("MANUAL");
+    }
+  });
+
+  it("ignores Enter, modifier shortcuts and non-printable keys", () => {
+    const tracker = typed("SN12", 5);
+    tracker.keydown(key("v", 5000, { ctrlKey: true }));
+    tracker.keydown(key("Shift", 6000));
+    tracker.keydown(key("Enter", 7000));
+    expect(tracker.method()).toBe("SCANNER");
+  });
+
+  it("starts over after reset", () => {
+    const tracker = typed("SN12345678", 5);
+    tracker.paste();
+    tracker.reset();
+    expect(tracker.method()).toBe("MANUAL"); // nothing typed yet
+    [0, 5, 10, 15].forEach((t, i) => tracker.keydown(key(String(i), 9000 + t)));
+    expect(tracker.method()).toBe("SCANNER");
+  });
+});
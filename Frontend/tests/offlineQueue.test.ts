@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { isFinalRejection, isNetworkError, isTransientError } from "../utils/offlineQueue";
+
+// axios-shaped errors
+const answered = (status: number) => ({ response: { status, data: { error: `HTTP ${status}` } }, request: {} });
+const dropped = (code = "ERR_NETWORK") => ({ code, request: {} });
+
+describe("isFinalRejection", () => {
+  it.each([400, 403, 404, 409, 422])("drops the queued scan on %i", (status) => {
+    expect(isFinalRejection(answered(status))).toBe(true);
+  });
+
+  it.each([500, 502, 503, 504])("keeps the queued scan on %i", (status) => {
+    expect(isFinalRejection(answered(status))).toBe(false);
+  });
+
+  it("keeps the queued scan when logged out (401)", () => {
+    expect(isFinalRejection(answered(401))).toBe(false);
+  });
+
+  it.each(["ERR_NETWORK", "ECONNABORTED"])("keeps the queued scan on %s", (code) => {
+    expect(isFinalRejection(dropped(code))).toBe(false);
+  });
+
+  it("keeps the queued scan on an error without a response", () => {
+    expect(isFinalRejection(new Error("boom"))).toBe(false);
+  });
+});
+
+describe("isTransientError", () => {
+  it.each([502, 503, 504])("retries %i", (status) => {
+    expect(isTransientError(answered(status))).toBe(true);
+  });
+
+  it.each([400, 409, 500])("does not retry %i", (status) => {
+    expect(isTransientError(answered(status))).toBe(false);
+  });
+
+  it("retries a dropped connection", () => {
+    expect(isNetworkError(dropped())).toBe(true);
+    expect(isTransientError(dropped())).toBe(true);
+  });
+});
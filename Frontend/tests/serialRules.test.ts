@@ -0,0 +1,82 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { validateSerial, type SerialRules } from "../utils/serialRules";
+
+type Case = [name: string, rules: SerialRules, serial: string, valid: boolean];
+
+const CASES: Case[] = [
+  ["no rules", {}, "anything-goes", true],
+
+  ["length: exact", { serialLength: 8 }, "AB123456", true],
+  ["length: too short", { serialLength: 8 }, "AB12345", false],
+  ["length: too long", { serialLength: 8 }, "AB1234567", false],
+  ["length: surrounding spaces ignored", { serialLength: 4 }, "  AB12 ", true],
+
+  ["prefix: single", { serialPrefix: "SN" }, "SN0001", true],
+  ["prefix: lower case serial", { serialPrefix: "SN" }, "sn0001", true],
+  ["prefix: any of a list", { serialPrefix: "AB, CD" }, "CD0001", true],
+  ["prefix: none of a list", { serialPrefix: "AB,CD" }, "EF0001", false],
+
+  ["regex: match", { serialRegex: "^[A-Z]{2}\\d{4}$" }, "XY1234", true],
+  ["regex: no match", { serialRegex: "^[A-Z]{2}\\d{4}$" }, "XY123", false],
+  ["regex: invalid pattern", { serialRegex: "([" }, "XY1234", false],
+
+  ["LUHN: valid", { serialCheckDigit: "LUHN" }, "79927398713", true],
+  ["LUHN: wrong check digit", { serialCheckDigit: "LUHN" }, "79927398710", false],
+  ["LUHN: not numeric", { serialCheckDigit: "LUHN" }, "7992739871A", false],
+
+  ["GS1: valid EAN-13", { serialCheckDigit: "GS1" }, "4006381333931", true],
+  ["GS1: valid UPC-A", { serialCheckDigit: "GS1" }, "036000291452", true],
+  ["GS1: wrong check digit", { serialCheckDigit: "GS1" }, "4006381333932", false],
+  ["GS1: single digit", { serialCheckDigit: "GS1" }, "7", false],
+
+  ["NONE: any digits", { serialCheckDigit: "NONE" }, "12345", true],
+  ["combined: all pass", { serialLength: 11, serialPrefix: "799", serialCheckDigit: "LUHN" }, "79927398713", true],
+  ["combined: prefix fails", { serialLength: 11, serialPrefix: "800", serialCheckDigit: "LUHN" }, "79927398713", false],
+];
+
+describe("validateSerial (client)", () => {
+  it.each(CASES)("%s", (_name, rules, serial, valid) => {
+    const error = validateSerial("SKU-1", serial, rules);
+    if (valid) expect(error).toBeNull();
+    else expect(error).toEqual(expect.any(String));
+  });
+
+  it("accepts anything when the SKU has no rules", () => {
+    expect(validateSerial("SKU-1", "x", null)).toBeNull();
+  });
+});
+
+// The server runs its own copy before saving a scan: load it from Backend/server.js and
+// run the same table, so a change to one copy that is not made to the other fails here.
+function loadServerValidator() {
+  const src = readFileSync(new URL("../../Backend/server.js", import.meta.url), "utf8");
+  const slice = (start: string, end: string) => {
+    const from = src.indexOf(start);
+    const to = src.indexOf(end, from);
+    if (from < 0 || to < 0) throw new Error(`server.js: "${start}" block not found`);
+    return src.slice(from, to);
+  };
+  const helpers = slice("function toText(", "function safeFilename(");
+  const rules = slice("function luhnValid(", "// Normalizes serial rule fields");
+  return new Function(`${helpers}\n${rules}\nreturn validateSerialRules;`)() as (
+    skuRow: Record<string, unknown>,
+    serial: string
+  ) => string | null;
+}
+
+describe("validateSerialRules (server)", () => {
+  const validateSerialRules = loadServerValidator();
+
+  it.each(CASES)("%s", (_name, rules, serial, valid) => {
+    const skuRow = {
+      sku: "SKU-1",
+      serial_length: rules.serialLength ?? null,
+      serial_prefix: rules.serialPrefix ?? null,
+      serial_regex: rules.serialRegex ?? null,
+      serial_check_digit: rules.serialCheckDigit ?? null,
+    };
+    expect(validateSerialRules(skuRow, serial)).toBe(validateSerial("SKU-1", serial, rules));
+    expect(validateSerialRules(skuRow, serial) === null).toBe(valid);
+  });
+});
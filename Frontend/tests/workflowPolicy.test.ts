@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_WORKFLOW_POLICY, resolveWorkflowPolicy, type WorkflowPolicy } from "../utils/workflowPolicy";
+
+const SITE: WorkflowPolicy = {
+  batchSize: 10,
+  confirmBatches: false,
+  doubleScan: { outer: false, inner: false },
+};
+
+describe("resolveWorkflowPolicy", () => {
+  it("uses the built-in default until the site policy is loaded", () => {
+    expect(resolveWorkflowPolicy(DEFAULT_WORKFLOW_POLICY, [])).toEqual(DEFAULT_WORKFLOW_POLICY);
+  });
+
+  it("uses the site policy when no SKU is known", () => {
+    expect(resolveWorkflowPolicy(SITE, [])).toEqual(SITE);
+    expect(resolveWorkflowPolicy(SITE, [null, undefined])).toEqual(SITE);
+  });
+
+  it("uses the site policy for a SKU without overrides", () => {
+    expect(resolveWorkflowPolicy(SITE, [{}])).toEqual(SITE);
+  });
+
+  it("falls back to the site value for null per-SKU columns", () => {
+    const rules = { batchSize: null, confirmBatches: null, doubleScanInner: null };
+    expect(resolveWorkflowPolicy(SITE, [rules])).toEqual(SITE);
+  });
+
+  it("lets per-SKU columns override the site policy", () => {
+    expect(resolveWorkflowPolicy(SITE, [{ batchSize: 3, confirmBatches: true, doubleScanInner: true }])).toEqual({
+      batchSize: 3,
+      confirmBatches: true,
+      doubleScan: { outer: false, inner: true },
+    });
+  });
+
+  it("overrides in the relaxing direction too", () => {
+    const strictSite: WorkflowPolicy = { batchSize: 2, confirmBatches: true, doubleScan: { outer: true, inner: true } };
+    expect(resolveWorkflowPolicy(strictSite, [{ batchSize: 20, confirmBatches: false, doubleScanInner: false }])).toEqual({
+      batchSize: 20,
+      confirmBatches: false,
+      doubleScan: { outer: true, inner: false },
+    });
+  });
+
+  it("never takes the OuterBox double scan from a SKU", () => {
+    expect(resolveWorkflowPolicy(SITE, [{ doubleScanInner: true }]).doubleScan.outer).toBe(false);
+  });
+
+  it("applies the strictest rule across the lines of a MIXED InnerBox", () => {
+    const policy = resolveWorkflowPolicy(SITE, [
+      { batchSize: 8, confirmBatches: false },
+      { batchSize: null, doubleScanInner: true }, // site batch size (10)
+      { batchSize: 4, confirmBatches: true },
+    ]);
+    expect(policy).toEqual({ batchSize: 4, confirmBatches: true, doubleScan: { outer: false, inner: true } });
+  });
+
+  it("lets a line without overrides pull in the site value", () => {
+    const strictSite: WorkflowPolicy = { batchSize: 3, confirmBatches: true, doubleScan: { outer: true, inner: true } };
+    const policy = resolveWorkflowPolicy(strictSite, [{ batchSize: 9, confirmBatches: false, doubleScanInner: false }, {}]);
+    expect(policy).toEqual(strictSite);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearWorkflow, loadWorkflow, saveWorkflow } from "../utils/workflowState";
+
+const KEY = "inbound.workflow";
+
+function memoryStorage() {
+  const data = new Map<string, string>();
+  return {
+    getItem: (k: string) => data.get(k) ?? null,
+    setItem: (k: string, v: string) => void data.set(k, String(v)),
+    removeItem: (k: string) => void data.delete(k),
+    clear: () => data.clear(),
+  };
+}
+
+const snapshot = {
+  step: "SCAN_ITEMS",
+  outerBoxId: "OB-1",
+  innerBoxId: "IB-7",
+  sessionId: 42,
+  batchNo: 2,
+  deferredBatchConfirms: [{ sessionId: 42, batchNo: 1 }],
+};
+
+describe("workflow state", () => {
+  beforeEach(() => vi.stubGlobal("localStorage", memoryStorage()));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("round-trips a snapshot for the same operator", () => {
+    saveWorkflow("alice", snapshot);
+    expect(loadWorkflow<typeof snapshot>("alice")).toEqual(snapshot);
+  });
+
+  it("rejects a snapshot saved by another operator", () => {
+    saveWorkflow("alice", snapshot);
+    expect(loadWorkflow("bob")).toBeNull();
+  });
+
+  it("rejects a snapshot from an older app version", () => {
+    saveWorkflow("alice", snapshot);
+    const saved = JSON.parse(localStorage.getItem(KEY)!);
+    localStorage.setItem(KEY, JSON.stringify({ ...saved, v: saved.v - 1 }));
+    expect(loadWorkflow("alice")).toBeNull();
+  });
+
+  it("rejects a corrupted snapshot", () => {
+    localStorage.setItem(KEY, "{not json");
+    expect(loadWorkflow("alice")).toBeNull();
+  });
+
+  it("does not save without an operator", () => {
+    saveWorkflow("", snapshot);
+    expect(localStorage.getItem(KEY)).toBeNull();
+  });
+
+  it("returns nothing after clear", () => {
+    saveWorkflow("alice", snapshot);
+    clearWorkflow();
+    expect(loadWorkflow("alice")).toBeNull();
+  });
+
+  it("keeps working when storage is full", () => {
+    localStorage.setItem = () => {
+      throw new Error("QuotaExceededError");
+    };
+    expect(() => saveWorkflow("alice", snapshot)).not.toThrow();
+  });
+});
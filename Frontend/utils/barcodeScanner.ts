@@ -0,0 +1,90 @@
+// utils/barcodeScanner.ts
+// Camera barcode decoding (Code128 / QR / DataMatrix) for devices without a hardware scanner.
+// Live video, still images and raw pixels go through the same hints + normalizeScan, so a
+// recorded image fixture decodes exactly like a camera frame.
+
+import { BrowserMultiFormatReader, type IScannerControls } from "@zxing/browser";
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  RGBLuminanceSource,
+} from "@zxing/library";
+
+export const SCAN_FORMATS = [BarcodeFormat.CODE_128, BarcodeFormat.QR_CODE, BarcodeFormat.DATA_MATRIX];
+
+// a code back in view within this window of last being seen is the same physical scan
+const REPEAT_MS = 1500;
+
+type ScanHints = Map<DecodeHintType, BarcodeFormat[] | boolean>;
+
+function scanHints(): ScanHints {
+  return new Map<DecodeHintType, BarcodeFormat[] | boolean>([
+    [DecodeHintType.POSSIBLE_FORMATS, SCAN_FORMATS],
+    [DecodeHintType.TRY_HARDER, true],
+  ]);
+}
+
+function createReader() {
+  return new BrowserMultiFormatReader(scanHints(), { delayBetweenScanAttempts: 150 });
+}
+
+// Drop GS1 group separators / control chars that a keyboard wedge would never type
+export function normalizeScan(text: string) {
+  return text.replace(/[\u0000-\u001f\u007f]/g, "").trim();
+}
+
+export const cameraSupported = () =>
+  typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+
+// One still image (URL, object URL or <img>); null when no supported barcode is found
+export async function decodeImage(source: string | HTMLImageElement): Promise<string | null> {
+  try {
+    const result = await createReader().decodeFromImageElement(source);
+    return normalizeScan(result.getText()) || null;
+  } catch {
+    return null;
+  }
+}
+
+// RGBA pixels (ImageData.data, a decoded PNG...) without a DOM; null when nothing is found
+export function decodePixels(rgba: Uint8ClampedArray | Uint8Array, width: number, height: number): string | null {
+  const luminances = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < luminances.length; i++) {
+    const o = i * 4;
+    luminances[i] = (rgba[o]! * 299 + rgba[o + 1]! * 587 + rgba[o + 2]! * 114) / 1000;
+  }
+
+  const reader = new MultiFormatReader();
+  reader.setHints(scanHints());
+  try {
+    const bitmap = new BinaryBitmap(new HybridBinarizer(new RGBLuminanceSource(luminances, width, height)));
+    return normalizeScan(reader.decodeWithState(bitmap).getText()) || null;
+  } catch {
+    return null;
+  }
+}
+
+// Continuous decoding from the back camera into <video>; call stop() on the result when done
+export async function startCameraScan(video: HTMLVideoElement, onDecoded: (text: string) => void): Promise<IScannerControls> {
+  // code -> last time it was in view; several labels can be in frame and alternate between frames
+  const seen = new Map<string, number>();
+
+  return createReader().decodeFromConstraints(
+    { video: { facingMode: { ideal: "environment" } }, audio: false },
+    video,
+    (result) => {
+      if (!result) return;
+      const text = normalizeScan(result.getText());
+      if (!text) return;
+
+      const now = Date.now();
+      for (const [code, at] of seen) if (now - at >= REPEAT_MS) seen.delete(code);
+      const repeat = seen.has(text);
+      seen.set(text, now);
+      if (!repeat) onDecoded(text);
+    }
+  );
+}
@@ -0,0 +1,67 @@
+// utils/entryDetector.ts
+// Tells a keyboard-wedge scanner burst from a value typed by hand, using keystroke timing.
+// A scanner sends every character a few ms apart; people are 80ms+ per key and uneven.
+
+export type EntryMethod = "SCANNER" | "CAMERA" | "MANUAL";
+export type EntryField = "outer" | "inner" | "sku" | "serial";
+export type EntryPolicy = "ALLOW" | "FLAG" | "REJECT";
+
+// mirrors ENTRY_POLICY defaults in Backend/server.js (used until the server policy is loaded)
+export const DEFAULT_ENTRY_POLICY: Record<EntryField, EntryPolicy> = {
+  outer: "FLAG",
+  inner: "FLAG",
+  sku: "FLAG",
+  serial: "FLAG",
+};
+
+export const ENTRY_FIELD_LABEL: Record<EntryField, string> = {
+  outer: "Outer Box ID",
+  inner: "Inner Box ID",
+  sku: "SKU",
+  serial: "Serial number",
+};
+
+const MIN_BURST_CHARS = 4; // shorter values cannot be told apart reliably -> manual
+const MAX_AVG_GAP_MS = 35;
+const MAX_GAP_MS = 80;
+
+export type EntryTracker = {
+  keydown: (e: KeyboardEvent) => void;
+  paste: () => void;
+  method: () => EntryMethod;
+  reset: () => void;
+};
+
+// One tracker per input; classify on Enter, then reset for the next value
+export function createEntryTracker(): EntryTracker {
+  let stamps: number[] = [];
+  let edited = false;
+
+  return {
+    keydown(e: KeyboardEvent) {
+      if (e.key === "Enter") return;
+      if (e.key === "Backspace" || e.key === "Delete") {
+        edited = true;
+        return;
+      }
+      if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) stamps.push(e.timeStamp);
+    },
+
+    paste() {
+      edited = true;
+    },
+
+    method() {
+      if (edited || stamps.length < MIN_BURST_CHARS) return "MANUAL";
+
+      const gaps = stamps.slice(1).map((t, i) => t - stamps[i]!);
+      const avg = gaps.reduce((a, b) => a + b, 0) / gaps.length;
+      return avg <= MAX_AVG_GAP_MS && Math.max(...gaps) <= MAX_GAP_MS ? "SCANNER" : "MANUAL";
+    },
+
+    reset() {
+      stamps = [];
+      edited = false;
+    },
+  };
+}
@@ -0,0 +1,35 @@
+// utils/imageCompress.ts
+// Shrinks a phone camera photo to a JPEG data URL small enough to upload with an exception
+// (the server accepts at most 1 MB per photo).
+
+const MAX_SIDE = 1280;
+const QUALITY = 0.7;
+
+function loadImage(url: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not read that image."));
+    img.src = url;
+  });
+}
+
+export async function compressImage(file: File): Promise<string> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    const scale = Math.min(1, MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Image compression is not supported on this device.");
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+    return canvas.toDataURL("image/jpeg", QUALITY);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,57 @@
+// utils/manifestOutput.ts
+// Hands a manifest produced by the backend to the device: PDFs go to the print dialog,
+// ZPL is downloaded so it can be sent to the Zebra printer (e.g. via Zebra Browser Print).
+
+import type { ManifestFormat } from "../src/api/inbounds";
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Print through a hidden iframe so no popup window is needed (works after an await)
+export function printPdfBlob(blob: Blob) {
+  const url = URL.createObjectURL(new Blob([blob], { type: "application/pdf" }));
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.src = url;
+
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // give the print dialog time to read the document before cleanup
+    setTimeout(() => {
+      frame.remove();
+      URL.revokeObjectURL(url);
+    }, 60000);
+  };
+
+  document.body.appendChild(frame);
+}
+
+export function outputManifest(blob: Blob, format: ManifestFormat, name: string) {
+  if (format === "pdf") printPdfBlob(blob);
+  else downloadBlob(blob, `${name}.zpl`);
+}
+
+// Error bodies arrive as Blob when responseType is "blob"
+export async function blobErrorMessage(err: any, fallback: string) {
+  const data = err?.response?.data;
+  if (data instanceof Blob) {
+    try {
+      return JSON.parse(await data.text()).error || fallback;
+    } catch {
+      return fallback;
+    }
+  }
+  return err?.message || fallback;
+}
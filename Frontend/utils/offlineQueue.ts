@@ -0,0 +1,116 @@
+// utils/offlineQueue.ts
+// On-device queue (IndexedDB) for scans that could not reach the backend.
+// Entries are replayed in insertion order once the connection comes back.
+
+import type { EntryMethod } from "./entryDetector";
+
+export type QueuedScan = {
+  id?: number;
+  sessionId: number;
+  sku: string;
+  serialNumber: string;
+  scanId?: string; // same id as the first (failed) attempt, so a replay cannot double-insert
+  batchNo?: number;
+  entryMethod?: EntryMethod;
+  skuEntryMethod?: EntryMethod;
+  packedBy: string;
+  queuedAt: string;
+};
+
+const DB_NAME = "inbound-offline";
+const DB_VERSION = 1;
+const STORE = "scans";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available on this device."));
+      return;
+    }
+
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+        store.createIndex("sessionId", "sessionId", { unique: false });
+      }
+    };
+
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const req = fn(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export async function enqueueScan(scan: Omit<QueuedScan, "id" | "queuedAt">) {
+  const entry: QueuedScan = { ...scan, queuedAt: new Date().toISOString() };
+  const id = await run("readwrite", (s) => s.add(entry));
+  return { ...entry, id: Number(id) };
+}
+
+// Oldest first (autoIncrement keys preserve scan order)
+export async function listQueuedScans(): Promise<QueuedScan[]> {
+  return run("readonly", (s) => s.getAll() as IDBRequest<QueuedScan[]>);
+}
+
+export async function removeQueuedScan(id: number) {
+  await run("readwrite", (s) => s.delete(id));
+}
+
+export async function countQueuedScans(): Promise<number> {
+  try {
+    return await run("readonly", (s) => s.count());
+  } catch {
+    return 0;
+  }
+}
+
+// A network failure has no HTTP response; anything the server answered is not "offline".
+export function isNetworkError(err: any): boolean {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  return !!err && !err.response && (err.code === "ERR_NETWORK" || err.code === "ECONNABORTED" || !!err.request);
+}
+
+// Timeouts, dropped connections and gateway/unavailable answers (502/503/504) are worth retrying;
+// other answers are final, including a 500 (the same request would fail the same way).
+export function isTransientError(err: any): boolean {
+  const status = err?.response?.status;
+  return isNetworkError(err) || status === 502 || status === 503 || status === 504;
+}
+
+// Answers that will not change on a later attempt: validation (400/422), lock (403),
+// session gone (404), conflict (409). Only these may drop a queued scan; a 5xx, a 401
+// or a dropped connection keeps it for the next sync.
+const FINAL_STATUSES = [400, 403, 404, 409, 422];
+
+export function isFinalRejection(err: any): boolean {
+  return !isTransientError(err) && FINAL_STATUSES.includes(err?.response?.status);
+}
+
+export function newScanId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
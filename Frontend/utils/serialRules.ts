@@ -0,0 +1,78 @@
+// utils/serialRules.ts
+// Per-SKU serial number format rules (mirrors validateSerialRules in Backend/server.js;
+// tests/serialRules.test.ts runs the same cases against both copies).
+
+export type CheckDigitMethod = "NONE" | "LUHN" | "GS1";
+
+export type SerialRules = {
+  serialLength?: number | null;
+  serialPrefix?: string | null; // comma separated allowed prefixes
+  serialRegex?: string | null;
+  serialCheckDigit?: CheckDigitMethod | null;
+};
+
+export const CHECK_DIGIT_METHODS: CheckDigitMethod[] = ["NONE", "LUHN", "GS1"];
+
+function luhnValid(digits: string) {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// GS1 mod 10: weights 3,1,3,... from the right, excluding the check digit
+function gs1Valid(digits: string) {
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += Number(body[body.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+export const hasSerialLength = (rules?: SerialRules | null) => !!rules?.serialLength && rules.serialLength > 0;
+
+// Returns an error message, or null when the serial matches the rules
+export function validateSerial(sku: string, serial: string, rules?: SerialRules | null): string | null {
+  if (!rules) return null;
+  const sn = serial.trim().toUpperCase();
+
+  const len = Math.floor(Number(rules.serialLength) || 0);
+  if (len > 0 && sn.length !== len) {
+    return `Serial length must be ${len} for ${sku} (got ${sn.length}).`;
+  }
+
+  const prefixes = (rules.serialPrefix ?? "")
+    .split(",")
+    .map((p) => p.trim().toUpperCase())
+    .filter(Boolean);
+  if (prefixes.length && !prefixes.some((p) => sn.startsWith(p))) {
+    return `Serial must start with ${prefixes.join(" or ")} for ${sku}.`;
+  }
+
+  const pattern = (rules.serialRegex ?? "").trim();
+  if (pattern) {
+    let re: RegExp;
+    try {
+      re = new RegExp(pattern);
+    } catch {
+      return `Serial rule for ${sku} has an invalid regex.`;
+    }
+    if (!re.test(sn)) return `Serial does not match the format for ${sku}.`;
+  }
+
+  const method = (rules.serialCheckDigit ?? "NONE").toUpperCase();
+  if (method !== "NONE") {
+    if (!/^\d{2,}$/.test(sn)) return `Serial must be numeric for ${method} check digit (${sku}).`;
+    const ok = method === "LUHN" ? luhnValid(sn) : gs1Valid(sn);
+    if (!ok) return `Serial check digit is invalid (${method}).`;
+  }
+
+  return null;
+}
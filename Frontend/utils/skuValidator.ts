@@ -1,9 +1,62 @@
-import skuData from '../data/sku.json'
+import { fetchSkuMaster, type SkuMasterEntry } from '../src/api/inbounds'
 
-const validSkuSet = new Set(
-  skuData.skus.map(sku => sku.trim().toUpperCase())
-)
+// SKU master is managed on the server (skus table) and cached on the device
+// with its version, so scanning keeps working offline with the last known list.
+type SkuMasterCache = {
+  version: string
+  skus: SkuMasterEntry[]
+  fetchedAt: string
+}
+
+const CACHE_KEY = 'inbound.skuMaster'
+
+function readCache(): SkuMasterCache | null {
+  if (typeof localStorage === 'undefined') return null
+  try {
+    const raw = localStorage.getItem(CACHE_KEY)
+    return raw ? (JSON.parse(raw) as SkuMasterCache) : null
+  } catch {
+    return null
+  }
+}
+
+let cache: SkuMasterCache | null = readCache()
+let validSkuSet = buildSet(cache)
+
+function buildSet(c: SkuMasterCache | null) {
+  return new Set((c?.skus ?? []).map(s => s.sku.trim().toUpperCase()))
+}
+
+export const hasSkuMaster = (): boolean => !!cache
+
+export const skuMasterVersion = (): string => cache?.version ?? ''
+
+// Downloads the SKU list when the server version differs from the cached one.
+// Returns false when the server could not be reached (cached copy stays in use).
+export async function syncSkuMaster(): Promise<boolean> {
+  try {
+    const r = await fetchSkuMaster(cache?.version)
+    if (r.data.unchanged && cache) return true
+
+    cache = {
+      version: r.data.version,
+      skus: r.data.skus ?? [],
+      fetchedAt: new Date().toISOString()
+    }
+    validSkuSet = buildSet(cache)
+    localStorage.setItem(CACHE_KEY, JSON.stringify(cache))
+    return true
+  } catch {
+    return false
+  }
+}
 
 export const isValidSku = (sku: string): boolean => {
   return validSkuSet.has(sku.trim().toUpperCase())
 }
+
+// Cached master entry (incl. serial format rules) for a SKU
+export const getSkuEntry = (sku: string): SkuMasterEntry | null => {
+  const key = sku.trim().toUpperCase()
+  return cache?.skus.find(s => s.sku.trim().toUpperCase() === key) ?? null
+}
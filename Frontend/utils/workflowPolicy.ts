@@ -0,0 +1,38 @@
+// utils/workflowPolicy.ts
+// Batch size, batch confirmation and double-scan rules (mirrors resolveWorkflowPolicy in Backend/server.js).
+// The site default comes from GET /api/inbounds/workflow-policy, per-SKU overrides with the SKU master.
+
+export type WorkflowPolicy = {
+  batchSize: number;
+  confirmBatches: boolean; // false: no batch step, batches are confirmed with the InnerBox
+  doubleScan: { outer: boolean; inner: boolean };
+};
+
+// Per-SKU overrides stored in the SKU master (null = site default)
+export type WorkflowRules = {
+  batchSize?: number | null;
+  confirmBatches?: boolean | null;
+  doubleScanInner?: boolean | null;
+};
+
+// used until the server policy is loaded
+export const DEFAULT_WORKFLOW_POLICY: WorkflowPolicy = {
+  batchSize: 5,
+  confirmBatches: true,
+  doubleScan: { outer: true, inner: true },
+};
+
+// SKUs of one InnerBox (MIXED: one per line) -> effective policy; each SKU falls back to the site default, strictest wins
+export function resolveWorkflowPolicy(site: WorkflowPolicy, skus: (WorkflowRules | null | undefined)[]): WorkflowPolicy {
+  const rules = skus.filter((r): r is WorkflowRules => !!r);
+  if (!rules.length) return site;
+
+  return {
+    batchSize: Math.min(...rules.map((r) => r.batchSize ?? site.batchSize)),
+    confirmBatches: rules.some((r) => r.confirmBatches ?? site.confirmBatches),
+    doubleScan: {
+      outer: site.doubleScan.outer,
+      inner: rules.some((r) => r.doubleScanInner ?? site.doubleScan.inner),
+    },
+  };
+}
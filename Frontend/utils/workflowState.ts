@@ -0,0 +1,40 @@
+// utils/workflowState.ts
+// Scanning workflow saved on the device (localStorage) so a page reload brings the operator
+// back to the same step and InnerBox. Only the operator who saved it gets it back.
+
+const KEY = "inbound.workflow";
+const VERSION = 1;
+
+type Saved<T> = {
+  v: number;
+  operator: string;
+  savedAt: string;
+  data: T;
+};
+
+export function saveWorkflow<T>(operator: string, data: T) {
+  if (typeof localStorage === "undefined" || !operator) return;
+  const saved: Saved<T> = { v: VERSION, operator, savedAt: new Date().toISOString(), data };
+  try {
+    localStorage.setItem(KEY, JSON.stringify(saved));
+  } catch {
+    // storage full / disabled: a reload just starts from Home
+  }
+}
+
+// null when nothing is saved, it belongs to another operator, or it is from an older app version
+export function loadWorkflow<T>(operator: string): T | null {
+  if (typeof localStorage === "undefined") return null;
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEY) || "null") as Saved<T> | null;
+    if (!saved || saved.v !== VERSION || saved.operator !== operator) return null;
+    return saved.data;
+  } catch {
+    return null;
+  }
+}
+
+export function clearWorkflow() {
+  if (typeof localStorage === "undefined") return;
+  localStorage.removeItem(KEY);
+}